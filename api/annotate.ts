@@ -1,41 +1,35 @@
-import OpenAI from "openai";
 import { v4 as uuidv4 } from "uuid";
+import {
+  isAuthConfigured,
+  verifyWebhookRequest,
+  verifyWebhookUser,
+} from "../lib/auth";
+import { parseHighlightTrigger, replyToHighlight } from "../lib/chat";
+import { getConfig } from "../lib/config";
+import { isPreviewLabel, stripPreview } from "../lib/dryrun";
+import {
+  claimIdempotencyKey,
+  getIdempotencyKey,
+  isSelfTriggered,
+  releaseIdempotencyKey,
+} from "../lib/idempotency";
+import { createLogger } from "../lib/logger";
+import type { Logger } from "../lib/logger";
+import {
+  getDryRunClient,
+  getOmnivoreClient,
+  previewArticle,
+  processArticle,
+} from "../lib/pipeline";
+import { getDoneLabel } from "../lib/prompts";
+import { drainQueue, getDrainOptions, getQueue } from "../lib/queue";
+import { getStore } from "../lib/store";
+import { getBudgetError } from "../lib/usage";
 
 export const config = {
   runtime: "edge",
 };
 
-interface Label {
-  id?: string;
-  name: string;
-  color?: string;
-  description: string;
-}
-
-interface LabelAction {
-  label: string;
-  replacedLabel: string;
-  processLabel: string;
-  action: string;
-  labelData: Label | undefined;
-  prompts: string[];
-  description: string | undefined;
-}
-
-interface LabelPayload {
-  pageId: string;
-  labels: Label[];
-}
-
-interface Article {
-  id: string;
-  content: string;
-  title: string;
-  labels: Label[];
-  highlights: Array<{ id: string; type: string }>;
-  existingNote: { id: string; type: string } | undefined;
-}
-
 interface PagePayload {
   id: string;
   userId: string;
@@ -91,990 +85,511 @@ interface WebhookLabelPayload {
   pageId: string;
 }
 
+interface HighlightPayload {
+  id: string;
+  type: "HIGHLIGHT" | "NOTE" | string;
+  // Older payloads use pageId, newer ones libraryItemId
+  pageId?: string;
+  libraryItemId?: string;
+  quote: string | null;
+  prefix: string | null;
+  suffix: string | null;
+  annotation: string | null;
+}
+
 // Update the existing WebhookPayload interface
 interface WebhookPayload {
   action: string;
   userId: string;
   label?: WebhookLabelPayload;
   page?: PagePayload;
+  highlight?: HighlightPayload;
 }
 
-export default async (req: Request): Promise<Response> => {
-  const requestId = uuidv4(); // Generate a unique ID for this request
-  console.log(`[${requestId}] Starting request processing`);
-
-  try {
-    const annotateLabel = process.env["OMNIVORE_ANNOTATE_LABEL"] ?? "do";
-    console.log(`[${requestId}] Annotate label: ${annotateLabel}`);
+type WebhookEvent =
+  | "PAGE_CREATED"
+  | "LABEL_ADDED"
+  | "HIGHLIGHT_CREATED"
+  | "HIGHLIGHT_UPDATED";
 
-    const body: WebhookPayload = (await req.json()) as WebhookPayload;
-    console.log(
-      `[${requestId}] Received webhook payload:`,
-      JSON.stringify(body)
-    );
+// Keeps the function alive for work that continues after the response
+type WaitUntil = (promise: Promise<unknown>) => void;
 
-    // Update the labels handling
-    const labels = (body.label?.labels || []).filter(
-      (label): label is WebhookLabel =>
-        !!label && typeof label === "object" && "name" in label
-    );
+interface EdgeContext {
+  waitUntil?: WaitUntil;
+}
 
-    console.log(`[${requestId}] Filtered labels:`, JSON.stringify(labels));
+interface RunOptions {
+  waitUntil: WaitUntil;
+  // Runs the actions without writing to Omnivore and returns the plan
+  dryRun: boolean;
+  logger: Logger;
+}
 
-    if (labels.length === 0) {
-      console.log(`[${requestId}] No labels found in the webhook payload.`);
-      return new Response(`No labels found in the webhook payload.`, {
-        status: 400,
-      });
-    }
+export default async (
+  req: Request,
+  context?: EdgeContext
+): Promise<Response> => {
+  const requestId = uuidv4(); // Generate a unique ID for this request
+  const logger = createLogger({ requestId });
+  const start = Date.now();
+  logger.info("Starting request processing");
 
-    const matchingLabels = labels
-      .filter(
-        (label) =>
-          label.name === annotateLabel ||
-          label.name.startsWith(`${annotateLabel}:`)
-      )
-      .map((label) => label.name);
+  const response = await handleWebhook(req, requestId, logger, context);
 
-    console.log(
-      `[${requestId}] Matching labels:`,
-      JSON.stringify(matchingLabels)
-    );
+  // Work continuing in waitUntil isn't included
+  logger.info("Request finished", {
+    status: response.status,
+    duration: Date.now() - start,
+    timings: logger.timings(),
+  });
+  return response;
+};
 
-    if (matchingLabels.length === 0) {
-      console.log(`[${requestId}] No '${annotateLabel}' labels found.`);
-      return new Response(
-        `No '${annotateLabel}' labels found. Expected at least one '${annotateLabel}' or '${annotateLabel}:*' label.`,
-        { status: 400 }
+async function handleWebhook(
+  req: Request,
+  requestId: string,
+  logger: Logger,
+  context: EdgeContext | undefined
+): Promise<Response> {
+  try {
+    // The signature covers the raw body, so it is read as text first
+    const rawBody = await req.text();
+    if (!isAuthConfigured()) {
+      logger.warn(
+        "Neither WEBHOOK_SECRET nor WEBHOOK_HMAC_SECRET is set, accepting unauthenticated request"
       );
     }
-
-    console.log(`Found matching labels: ${matchingLabels.join(", ")}`);
-
-    // You can now use matchingLabels array for further processing
-    // For example, to check for specific labels:
-    const hasBaseLabel = matchingLabels.includes(annotateLabel);
-    const hasTask = matchingLabels.includes(`${annotateLabel}:task`);
-    const hasTranscription = matchingLabels.includes(
-      `${annotateLabel}:transcription`
-    );
-    const hasCompletion = matchingLabels.includes(
-      `${annotateLabel}:completion`
-    );
-
-    console.log(
-      `hasBaseLabel: ${hasBaseLabel}, hasTask: ${hasTask}, hasTranscription: ${hasTranscription}, hasCompletion: ${hasCompletion}`
-    );
-
-    const articleId = body.label?.pageId;
-    if (!articleId) {
-      throw new Error("No article ID found in the webhook payload.");
+    const authError = await verifyWebhookRequest(req, rawBody);
+    if (authError) {
+      logger.info("Rejected request", { reason: authError.message });
+      return new Response(authError.message, { status: authError.status });
     }
 
-    const omnivoreHeaders = {
-      "Content-Type": "application/json",
-      Authorization: process.env["OMNIVORE_API_KEY"] ?? "",
-    };
-
-    const article = await getArticle(articleId, omnivoreHeaders);
-
-    const labelActions = getLabelAction(matchingLabels, article, annotateLabel);
-
-    const model = process.env["OPENAI_MODEL"] || "gpt-4o-2024-08-06";
-    const settings = process.env["OPENAI_SETTINGS"] || `{"model":"${model}"}`;
-
-    console.log("labelAction: ", labelActions);
-    const { found, action } = resolvedLabelActions("tags", labelActions);
-    console.log("Found 'tags' action:", found);
-    console.log("Matching LabelAction:", action);
-    if (found) {
-      const currentLabelActions = action;
-
-      console.log("TAGS currentLabelActions: ", action);
+    // Validated only now, so unauthenticated callers don't learn about a
+    // broken configuration
+    const annotateLabel = getConfig().triggerLabel;
+    logger.debug(`Annotate label: ${annotateLabel}`);
 
-      const articleLabelsPrompt = labelsToPrompt(
-        article.labels,
-        annotateLabel,
-        "Existing article tags: ",
-        true
-      );
-
-      const chatgptExample = {
-        tags: [
-          {
-            name: "Tag Name",
-            description: "Really short tag description or an empty string",
-          },
-          {
-            name: "Gender and Education",
-            description: "",
-          },
-          {
-            name: "Inclusive Knowledge Preservation",
-            description:
-              "Accessibility and long-term preservation of human knowledge",
-          },
-        ],
-      };
-
-      const allLabels = await getAllLabelsFromOmnivore(omnivoreHeaders);
-
-      console.log("allLabels: ", allLabels);
-      console.log("article.labels: ", article.labels);
-
-      const allLabelsPrompt = labelsToPrompt(
-        allLabels,
-        annotateLabel,
-        "All labels in Omnivore: ",
-        true
-      );
-
-      const doTagsPrompt = `Generate a list of useful tags that could be added to this article. Proved them as a JSON array of objects with name and description properties.
-      ONLY respond with the JSON array.
-      Example: ${JSON.stringify(chatgptExample, null, 2)}
-      Please keep with the existing taxonomy and use the same language as the existing tags. Don’t have multiple tags referring to the same topic. Please reuse existing tags if they are similar.
-      Although as I'm an artist, I'm always looking for meaningful connections and metaphors. So if a tag falls outside of the existing structure but makes sense in the context of the article, add it as a new tag.
-      ONLY respond with the JSON array!`;
-
-      console.log("doTagsPrompt: ", doTagsPrompt);
-
-      const prompt = arrayToPromptGenerator([
-        doTagsPrompt,
-        ...currentLabelActions.prompts,
-        articleLabelsPrompt,
-        allLabelsPrompt,
-      ]);
-
-      console.log("prompt: ", prompt);
-
-      const openai = new OpenAI();
-      const completionResponse = await openai.chat.completions.create({
-        ...JSON.parse(settings),
-        messages: [{ role: "user", content: prompt }],
-        response_format: {
-          type: "json_schema",
-          json_schema: {
-            name: "tag_list",
-            strict: true,
-            schema: {
-              type: "object",
-              properties: {
-                tags: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      name: {
-                        type: "string",
-                      },
-                      description: {
-                        type: "string",
-                      },
-                    },
-                    required: ["name", "description"],
-                    additionalProperties: false,
-                  },
-                },
-              },
-              required: ["tags"],
-              "additionalProperties": false
-            },
-          },
-        },
+    let body: WebhookPayload;
+    try {
+      body = JSON.parse(rawBody) as WebhookPayload;
+    } catch {
+      return new Response(`Webhook payload is not valid JSON.`, {
+        status: 400,
       });
+    }
+    logger.debug("Received webhook payload", { payload: body });
 
-      // const generatedTags = completionResponse.choices[0].message.content
-      //   ?.trim()
-      //   .split("\n")
-      //   .map((tag) => tag.trim())
-      //   .filter(
-      //     (tag) =>
-      //       tag && !article.labels.some((existing) => existing.name === tag)
-      //   );
-
-      const response = completionResponse.choices[0].message.content;
+    const userError = verifyWebhookUser(body.userId);
+    if (userError) {
+      logger.info("Rejected request", { reason: userError.message });
+      return new Response(userError.message, { status: userError.status });
+    }
 
-      if (!response) {
-        console.log(
-          "No response from OpenAI.",
-          completionResponse.choices[0].message.content
-        );
-        return new Response(`No response from OpenAI.`, { status: 500 });
-      }
+    const event = resolveWebhookEvent(body);
+    logger.info("Webhook event", { event, action: body.action });
 
-      const generatedTags = JSON.parse(response);
-      console.log('generatedTags', generatedTags)
+    const run: RunOptions = {
+      waitUntil:
+        context?.waitUntil?.bind(context) ??
+        ((promise) => void promise.catch(() => undefined)),
+      dryRun: isDryRunRequest(req),
+      logger,
+    };
 
-      if (!generatedTags || generatedTags.length === 0) {
-        console.log(
-          "No new tags generated.",
-          completionResponse.choices[0].message.content
+    switch (event) {
+      case "PAGE_CREATED":
+        return await handlePageCreated(
+          body,
+          requestId,
+          annotateLabel,
+          run
         );
-        return new Response(`No new tags generated.`, { status: 200 });
-      }
-
-
-      const newLabels = [
-        //...article.labels,
-        ...generatedTags.tags,
-        {name: currentLabelActions.replacedLabel, description: ''},
-      ];
-
-
-      await deleteLabel(currentLabelActions.labelData?.id, omnivoreHeaders);
-
-      await applyLabelToOmnivoreArticle(article.id, newLabels, allLabels, omnivoreHeaders);
-
-      return new Response(
-        `New tags added to the article and action updated to did: action.`,
-        { status: 200 }
-      );
-    } else if (hasOpenLabelActions(labelActions).hasOpen) {
-      const currentLabelAction = hasOpenLabelActions(labelActions).nextAction;
-      console.log("Running catchall with: ", currentLabelAction?.action);
-      console.log("currentLabelAction: ", currentLabelAction);
-      if (!currentLabelAction) {
-        return new Response(`No current label action found.`, { status: 400 });
-      }
-      const prompt = arrayToPromptGenerator([...currentLabelAction.prompts]);
-
-      const openai = new OpenAI();
-      const completionResponse = await openai.chat.completions.create({
-        ...JSON.parse(settings),
-        messages: [{ role: "user", content: prompt }],
-      });
-
-      const generatedResponse = completionResponse.choices[0].message.content
-        ?.trim()
-        .replace(/\\/g, "\\\\")
-        .replace(/"/g, '\\"');
-
-      if (!generatedResponse) {
-        console.log(
-          "No generated response from OpenAI.",
-          completionResponse.choices[0].message.content
+      case "LABEL_ADDED":
+        return await handleLabelAdded(
+          body,
+          requestId,
+          annotateLabel,
+          run
         );
-        return new Response(`No generated response from OpenAI.`, {
-          status: 500,
+      case "HIGHLIGHT_CREATED":
+      case "HIGHLIGHT_UPDATED":
+        return await handleHighlightChanged(body, requestId, run);
+      default:
+        logger.info("Unhandled action", { action: body.action });
+        return new Response(`Unhandled action: ${body.action}`, {
+          status: 400,
         });
-      }
-
-      await applyAnnotationToOmnivoreArticle(
-        article.id,
-        generatedResponse,
-        omnivoreHeaders,
-        article.existingNote
-      );
-      return new Response(`Annotation applied to the article.`, {
-        status: 200,
-      });
-    } else {
-      console.log("Unhandled action: ", body.action);
-      return new Response(`Unhandled action: ${body.action}`, { status: 400 });
     }
   } catch (error) {
-    console.error(`[${requestId}] Error processing Omnivore webhook:`, error);
+    logger.error("Error processing Omnivore webhook", { error });
     return new Response(
       `Error processing Omnivore webhook: ${(error as Error).message}`,
       { status: 500 }
     );
   }
-};
+}
 
-const resolvedLabelActions = (
-  currentAction: string,
-  myLabelAction: LabelAction[]
-): { found: boolean; action: LabelAction | null } => {
-  const matchingAction = myLabelAction.find(
-    (label) => label.action === currentAction
-  );
+// Omnivore sends the entity-specific verb ("created", "added") as `action`
+// and puts the payload under the entity key, so the event type is derived
+// from both. Fully qualified event names are accepted as well.
+function resolveWebhookEvent(body: WebhookPayload): WebhookEvent | undefined {
+  switch (body.action) {
+    case "PAGE_CREATED":
+    case "LABEL_ADDED":
+    case "HIGHLIGHT_CREATED":
+    case "HIGHLIGHT_UPDATED":
+      return body.action;
+    case "created":
+      if (body.highlight) return "HIGHLIGHT_CREATED";
+      return body.page ? "PAGE_CREATED" : undefined;
+    case "updated":
+      return body.highlight ? "HIGHLIGHT_UPDATED" : undefined;
+    case "added":
+      return body.label ? "LABEL_ADDED" : undefined;
+  }
+  // Fall back to the payload shape for senders that omit the action
+  if (body.label) return "LABEL_ADDED";
+  if (body.page) return "PAGE_CREATED";
+  return undefined;
+}
 
-  return {
-    found: !!matchingAction,
-    action: matchingAction || null,
-  };
-};
+async function handleLabelAdded(
+  body: WebhookPayload,
+  requestId: string,
+  annotateLabel: string,
+  run: RunOptions
+): Promise<Response> {
+  const { logger } = run;
+  // Update the labels handling
+  const labels = (body.label?.labels || []).filter(
+    (label): label is WebhookLabel =>
+      !!label && typeof label === "object" && "name" in label
+  );
 
-const hasOpenLabelActions = (myLabelAction: LabelAction[]) => {
-  const undoneAction = myLabelAction.find((label) => label.done === false);
-  return {
-    hasOpen: myLabelAction.some((label) => label.done === false),
-    nextAction: undoneAction || null,
-  };
-};
+  logger.debug("Filtered labels", { labels });
 
-async function getArticle(
-  articleId: string,
-  omnivoreHeaders: Record<string, string>
-): Promise<Article> {
-  interface FetchQueryResponse {
-    data: {
-      article: {
-        article: {
-          content: string;
-          title: string;
-          labels: Array<{
-            name: string;
-            description: string;
-          }>;
-          highlights: Array<{
-            id: string;
-            type: string;
-          }>;
-        };
-      };
-    };
+  if (labels.length === 0) {
+    logger.info("No labels found in the webhook payload");
+    return new Response(`No labels found in the webhook payload.`, {
+      status: 400,
+    });
   }
 
-  let fetchQuery = {
-    query: `query Article {
-  article(
-    slug: "${articleId}"
-    username: "."
-    format: "markdown"
-    ) {
-      ... on ArticleSuccess {
-        article {
-          title
-          content
-          labels {
-            name
-            description
-            id
-            color
-          }
-          highlights(input: { includeFriends: false }) {
-            id
-            shortId
-            user {
-                id
-                name
-                createdAt
-            }
-            type
-          }
-        }
-      }
-    }
-  }`,
-  };
+  const articleId = body.label?.pageId;
+  if (!articleId) {
+    throw new Error("No article ID found in the webhook payload.");
+  }
 
-  const omnivoreRequest = await fetch(
-    "https://api-prod.omnivore.app/api/graphql",
-    {
-      method: "POST",
-      headers: omnivoreHeaders,
-      body: JSON.stringify(fetchQuery),
-      redirect: "follow",
-    }
-  );
-  const omnivoreResponse = (await omnivoreRequest.json()) as FetchQueryResponse;
+  const labelNames = labels.map((label) => label.name);
+  if (await isSelfTriggered(getStore(), articleId, labelNames)) {
+    logger.info("Ignoring labels set by this function");
+    return new Response(`Ignoring labels set by this function.`, {
+      status: 200,
+    });
+  }
 
-  const {
-    data: {
-      article: {
-        article: {
-          content: articleContent,
-          title: articleTitle,
-          labels: articleLabels,
-          highlights,
-        },
-      },
-    },
-  } = omnivoreResponse;
+  const matchingLabels = filterAnnotateLabels(labelNames, annotateLabel);
 
-  let article = {
-    id: articleId,
-    title: articleTitle,
-    labels: articleLabels,
-    highlights,
-    existingNote: highlights.find(({ type }) => type === "NOTE"),
-    content: articleContent,
-  };
-  console.log("Loaded article: ", article);
-  return article;
-}
+  logger.info("Matching labels", { labels: matchingLabels });
 
-function arrayToPromptGenerator(array: (string | null)[]): string {
-  return array
-    .filter((item): item is string => item !== null)
-    .map((item) => `- ${item}`)
-    .join("\n");
-}
+  if (matchingLabels.length === 0) {
+    logger.info(`No '${annotateLabel}' labels found`);
+    return new Response(
+      `No '${annotateLabel}' labels found. Expected at least one '${annotateLabel}' or '${annotateLabel}:*' label.`,
+      { status: 400 }
+    );
+  }
 
-function getLabelDescription(
-  labelName: string,
-  labels: Label[]
-): string | undefined {
-  const label = labels.find((l) => l.name === labelName);
-  return label?.description;
+  return annotateArticle(
+    articleId,
+    matchingLabels,
+    annotateLabel,
+    requestId,
+    run
+  );
 }
 
-function getLabelFromLabelList(
-  labelName: string,
-  labels: Label[]
-): string | undefined {
-  const label = labels.find((l) => l.name === labelName);
-  return label
-}
+async function handlePageCreated(
+  body: WebhookPayload,
+  requestId: string,
+  annotateLabel: string,
+  run: RunOptions
+): Promise<Response> {
+  const { logger } = run;
+  const page = body.page;
+  if (!page?.id) {
+    logger.info("No page found in the webhook payload");
+    return new Response(`No page found in the webhook payload.`, {
+      status: 400,
+    });
+  }
 
-function getLabelAction(
-  matchingLabels: string[],
-  article: Article,
-  annotateLabel: string
-): LabelAction[] {
-  return matchingLabels.map((label) => {
-    const description = getLabelDescription(label, article.labels);
-    const promptWithFallback =
-      description ||
-      process.env["OPENAI_PROMPT"] ||
-      "Return a tweet-length TL;DR of the following article.";
+  // Omnivore may announce a page before its content has been parsed. Answer
+  // with 200 so the delivery isn't retried; the labels can be added later.
+  if (page.state !== "SUCCEEDED") {
+    logger.info("Skipping page that is not processed yet", {
+      articleId: page.id,
+      state: page.state,
+    });
+    return new Response(
+      `Page ${page.id} is not processed yet (state: ${page.state}). Skipping.`,
+      { status: 200 }
+    );
+  }
 
-    const promptBodyArray = (promptWithFallback: string): string[] => [
-      promptWithFallback,
-      `Article title: ${article.title}`,
-      `Article content: ${article.content}`,
-      article.existingNote ? `Existing note: ${article.existingNote}` : "",
-    ];
+  const pageLabels = page.labelNames || [];
+  const defaultLabels = getConfig().defaultActions.map((action) =>
+    action ? `${annotateLabel}:${action}` : annotateLabel
+  );
 
-    return {
-      label: label,
-      replacedLabel: label.replace(`${annotateLabel}:`, "did:"),
-      processLabel: label.split(":")[0],
-      action: label.split(":")[1],
-      labelData: getLabelFromLabelList(label, article.labels),
-      description,
-      prompts: promptBodyArray(promptWithFallback),
-    };
+  // Labels the page was saved with take part as well, defaults that already
+  // ran (marked with did:) are left out.
+  const matchingLabels = [
+    ...new Set([
+      ...filterAnnotateLabels(pageLabels, annotateLabel),
+      ...defaultLabels.filter(
+        (label) => !pageLabels.includes(getDoneLabel(label, annotateLabel))
+      ),
+    ]),
+  ];
+
+  logger.info("Actions to run for the new page", {
+    articleId: page.id,
+    pageLabels,
+    labels: matchingLabels,
   });
-}
 
-function labelsToPrompt(
-  labels: Label[],
-  annotateLabel: string,
-  prePrompt: string,
-  returnJson: boolean = true
-): string | null {
-  if (labels.length === 0) {
-    console.log("No labels found.");
-    return null;
+  if (matchingLabels.length === 0) {
+    return new Response(`No actions to run for page ${page.id}.`, {
+      status: 200,
+    });
   }
 
-  const labelsWithoutAnnotationLabel = labels.filter(
-    (label) => !label.name.startsWith(annotateLabel)
+  return annotateArticle(
+    page.id,
+    matchingLabels,
+    annotateLabel,
+    requestId,
+    run
   );
+}
 
-  if (labelsWithoutAnnotationLabel.length === 0) {
-    console.log("No labels without annotation label found.");
-    return null;
+async function handleHighlightChanged(
+  body: WebhookPayload,
+  requestId: string,
+  { dryRun, logger: requestLogger }: RunOptions
+): Promise<Response> {
+  const highlight = body.highlight;
+  const articleId = highlight?.pageId ?? highlight?.libraryItemId;
+  if (!highlight?.id || !articleId) {
+    requestLogger.info("No highlight found in the webhook payload");
+    return new Response(`No highlight found in the webhook payload.`, {
+      status: 400,
+    });
   }
 
-  if (returnJson) {
-    const json = labelsWithoutAnnotationLabel.map((label) => ({
-      name: label.name,
-      description: label.description || "",
-    }));
-    console.log("json: ", json);
-    return `${prePrompt} ${JSON.stringify(json, null, 2)}`;
-  } else {
-    const labelString = labelsWithoutAnnotationLabel
-      .map((label) => label.name)
-      .join(", ");
-    console.log("labelString: ", labelString);
-    return `${prePrompt} ${labelString}`;
+  // Article notes are written by the label actions
+  if (highlight.type !== "HIGHLIGHT") {
+    return new Response(`Ignoring ${highlight.type} highlight.`, {
+      status: 200,
+    });
   }
-}
 
-async function getAllLabelsFromOmnivore(
-  omnivoreHeaders: Record<string, string>
-): Promise<Label[]> {
-  const labelsQuery = {
-    query: `query GetLabels{
-          labels {
-            ... on LabelsSuccess {
-              labels {
-                id, 
-                name, 
-                color,
-                description,
-                createdAt, 
-                position, 
-                internal
-              }
-            }
-            ... on LabelsError {
-              errorCodes
-            }
-          }
-        }
-    `,
-  };
-
-  try {
-    const response = await fetch("https://api-prod.omnivore.app/api/graphql", {
-      method: "POST",
-      headers: omnivoreHeaders,
-      body: JSON.stringify(labelsQuery),
+  const trigger = getConfig().highlightTrigger;
+  const instruction = parseHighlightTrigger(highlight.annotation, trigger);
+  if (!instruction) {
+    requestLogger.info("Highlight has no trigger", {
+      highlightId: highlight.id,
+    });
+    return new Response(`No '${trigger}' trigger in the highlight note.`, {
+      status: 200,
     });
-
-    const data = await response.json();
-
-    if (data.data && data.data.labels && data.data.labels.labels) {
-      console.log("data.data.labels.labels: ", data.data.labels.labels);
-      return data.data.labels.labels;
-    } else if (data.data && data.data.labels && data.data.labels.errorCodes) {
-      console.log("data.data.labels.errorCodes: ", data.data.labels.errorCodes);
-      throw new Error(
-        `Failed to fetch labels: ${data.data.labels.errorCodes.join(", ")}`
-      );
-    } else {
-      throw new Error("Unexpected response structure");
-    }
-  } catch (error) {
-    console.error("Error fetching labels:", error);
-    throw error;
   }
-}
-
-
-async function createLabel(
-  name: string,
-  color?: string,
-  description?: string,
-  omnivoreHeaders: Record<string, string>
-): Promise<{ success: boolean; label?: Label; error?: string }> {
-  const mutation = `
-    mutation CreateLabel($input: CreateLabelInput!) {
-      createLabel(input: $input) {
-        ... on CreateLabelSuccess {
-          label {
-            id
-            name
-            color
-            description
-            createdAt
-          }
-        }
-        ... on CreateLabelError {
-          errorCodes
-        }
-      }
-    }
-  `;
 
-  const variables = {
-    input: {
-      name,
-      color,
-      description,
-    },
-  };
+  const logger = requestLogger.child({
+    articleId,
+    highlightId: highlight.id,
+  });
+  const budgetResponse = await checkBudget(logger);
+  if (budgetResponse) {
+    return budgetResponse;
+  }
 
-  try {
-    const response = await fetch("https://api-prod.omnivore.app/api/graphql", {
-      method: "POST",
-      headers: {
-        ...omnivoreHeaders,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ query: mutation, variables }),
+  // A retried delivery would otherwise ask the model and overwrite the
+  // reply again. Another question in the same highlight is new content.
+  const store = getStore();
+  const idempotencyKey = dryRun
+    ? undefined
+    : await getIdempotencyKey(
+        highlight.id,
+        "highlight",
+        highlight.annotation ?? ""
+      );
+  if (
+    idempotencyKey &&
+    !(await claimIdempotencyKey(store, idempotencyKey, requestId))
+  ) {
+    logger.info("Skipping the reply, it was delivered before");
+    return new Response(`Already replied to highlight ${highlight.id}.`, {
+      status: 200,
     });
-
-    const result = await response.json();
-
-    if (result.errors) {
-      console.error("GraphQL errors:", result.errors);
-      return { success: false, error: "GraphQL errors occurred" };
-    }
-
-    const data = result.data.createLabel;
-
-    if (data.label) {
-      return { success: true, label: data.label };
-    } else if (data.errorCodes) {
-      console.error("Label creation failed:", data.errorCodes);
-      return { success: false, error: `Label creation failed: ${data.errorCodes.join(", ")}` };
-    } else {
-      return { success: false, error: "Unexpected response structure" };
-    }
-  } catch (error) {
-    console.error("Error creating label:", error);
-    return { success: false, error: `Error creating label: ${(error as Error).message}` };
   }
-}
-
-async function deleteLabel(
-  labelId: string,
-  omnivoreHeaders: Record<string, string>
-): Promise<{ success: boolean; error?: string }> {
-  const mutation = `
-    mutation DeleteLabel($id: ID!) {
-      deleteLabel(id: $id) {
-        ... on DeleteLabelSuccess {
-          label {
-            id
-            name
-            color
-            description
-          }
-        }
-        ... on DeleteLabelError {
-          errorCodes
-        }
-      }
-    }
-  `;
-
-  const variables = {
-    id: labelId,
-  };
 
+  const dryRunClient = dryRun ? getDryRunClient(logger) : undefined;
+  const omnivore = dryRunClient ?? getOmnivoreClient(logger);
   try {
-    const response = await fetch("https://api-prod.omnivore.app/api/graphql", {
-      method: "POST",
-      headers: {
-        ...omnivoreHeaders,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ query: mutation, variables }),
-    });
-
-    const result = await response.json();
-
-    if (result.errors) {
-      console.error("GraphQL errors:", result.errors);
-      return { success: false, error: "GraphQL errors occurred" };
-    }
-
-    const data = result.data.deleteLabel;
+    const article = await logger.time("fetch article", () =>
+      omnivore.getArticle(articleId)
+    );
 
-    if (data.label) {
-      console.log(`Label "${data.label.name}" (ID: ${data.label.id}) deleted successfully.`);
-      return { success: true };
-    } else if (data.errorCodes) {
-      console.error("Label deletion failed:", data.errorCodes);
-      return { success: false, error: `Label deletion failed: ${data.errorCodes.join(", ")}` };
-    } else {
-      return { success: false, error: "Unexpected response structure" };
-    }
+    await replyToHighlight({
+      requestId,
+      logger,
+      omnivore,
+      article,
+      highlight,
+      instruction,
+    });
   } catch (error) {
-    console.error("Error deleting label:", error);
-    return { success: false, error: `Error deleting label: ${(error as Error).message}` };
+    if (idempotencyKey) {
+      await releaseIdempotencyKey(store, idempotencyKey);
+    }
+    throw error;
   }
-}
-
-
-function applyLabelToOmnivoreArticle(
-  articleId: string,
-  labels: Partial<Label>[],
-  allLabels: Label[],
-  omnivoreHeaders: Record<string, string>
-) {
-  const existingLabelsMap = new Map(allLabels.map(label => [label.name.toLowerCase(), label]));
 
-  const processedLabels = labels.map(label => {
-    if (!label.name) return label; // Skip if no name is provided
-    const existingLabel = existingLabelsMap.get(label.name.toLowerCase());
-    return existingLabel || { name: label.name, color: label.color, description: label.description };
+  if (dryRunClient) {
+    const { plan } = dryRunClient;
+    return Response.json({ requestId, articleId, dryRun, plan });
+  }
+  return new Response(`Reply added to highlight ${highlight.id}.`, {
+    status: 200,
   });
+}
 
-  return addLabelsToOmnivoreArticle(articleId, processedLabels, omnivoreHeaders);
+function filterAnnotateLabels(
+  labelNames: string[],
+  annotateLabel: string
+): string[] {
+  return labelNames.filter(
+    (name) => name === annotateLabel || name.startsWith(`${annotateLabel}:`)
+  );
 }
-  
 
-// Update the existing addLabelsToOmnivoreArticle function
-async function addLabelsToOmnivoreArticle(
+async function annotateArticle(
   articleId: string,
-  labels: Partial<Label>[],
-  omnivoreHeaders: Record<string, string>
-) {
-  console.log('addLabelsToOmnivoreArticle', labels);
-
-  // First, ensure all labels exist
-  for (const label of labels) {
-    if (!label.id) {
-      if (!label.name) {
-        console.error("Label is missing a name:", label);
-        continue;
-      }
-      // If the label doesn't have an ID, it's a new label that needs to be created
-      const result = await createLabel(label.name, label.color, label.description, omnivoreHeaders);
-      if (!result.success) {
-        console.error(`Failed to create label "${label.name}":`, result.error);
-        // You might want to handle this error, e.g., by skipping this label or returning an error
-      } else if (result.label) {
-        label.id = result.label.id; // Update the label with the newly created ID
-        label.color = result.label.color;
-      }
-    }
+  matchingLabels: string[],
+  annotateLabel: string,
+  requestId: string,
+  { waitUntil, dryRun, logger: requestLogger }: RunOptions
+): Promise<Response> {
+  const logger = requestLogger.child({ articleId });
+  const budgetResponse = await checkBudget(logger);
+  if (budgetResponse) {
+    return budgetResponse;
   }
 
-  console.log('all Labels should exist', labels);
-
-  // Now proceed with setting the labels on the article
-  const setLabelsMutation = {
-    query: `mutation SetLabels($input: SetLabelsInput!) {
-      setLabels(input: $input) {
-        ... on SetLabelsSuccess {
-          labels {
-            id
-            name
-            color
-            description
-          }
-        }
-        ... on SetLabelsError {
-          errorCodes
-        }
-      }
-    }`,
-    variables: {
-      input: {
-        pageId: articleId,
-        labelIds: labels.map(label => label.id).filter(Boolean),
-      },
-    },
-  };
-
-  try {
-    const setLabelsRequest = await fetch(
-      "https://api-prod.omnivore.app/api/graphql",
-      {
-        method: "POST",
-        headers: omnivoreHeaders,
-        body: JSON.stringify(setLabelsMutation),
-      }
-    );
-    const setLabelsResponse = await setLabelsRequest.json();
-    
-    if (setLabelsResponse.data?.setLabels?.labels) {
-      console.log(
-        `Labels set on article "${articleId}":`,
-        setLabelsResponse.data.setLabels.labels
-      );
-      return new Response(
-        `New tags added to the article and action updated to did: action.`,
-        { status: 200 }
-      );
-    } else if (setLabelsResponse.data?.setLabels?.errorCodes) {
-      console.error(
-        `Failed to set labels on article "${articleId}":`,
-        setLabelsResponse.data.setLabels.errorCodes, setLabelsMutation
-      );
-      return new Response(
-        `Failed to set labels: ${setLabelsResponse.data.setLabels.errorCodes.join(", ")}`,
-        { status: 400 }
-      );
-    } else {
-      console.error("Unexpected response structure:", setLabelsResponse);
-      return new Response("Unexpected response structure", { status: 500 });
-    }
-  } catch (error) {
-    console.error(`Error setting labels on article "${articleId}":`, error);
-    return new Response(
-      `Error setting labels: ${(error as Error).message}`,
-      { status: 500 }
-    );
+  if (dryRun) {
+    const { results, plan } = await previewArticle({
+      requestId,
+      articleId,
+      labels: [...new Set(matchingLabels.map(stripPreview))],
+      annotateLabel,
+      logger,
+    });
+    return Response.json({ requestId, articleId, dryRun, results, plan });
   }
-}
 
-let baseFragment = `
-  fragment HighlightFields on Highlight {
-    id
-    type
-    shortId
-    quote
-    prefix
-    suffix
-    patch
-    color
-    annotation
-    createdByMe
-    createdAt
-    updatedAt
-    sharedAt
-    highlightPositionPercent
-    highlightPositionAnchorIndex
-    labels {
-      id
-      name
-      color
-      createdAt
+  // Preview labels write the plan into a draft section of the note, since
+  // nobody sees this response
+  const previewLabels = matchingLabels
+    .filter(isPreviewLabel)
+    .map(stripPreview);
+  const labels = matchingLabels.filter((label) => !isPreviewLabel(label));
+
+  const queue = getQueue();
+  if (queue) {
+    const input = { requestId, pageId: articleId, annotateLabel };
+    const job =
+      labels.length > 0 ? await queue.enqueue({ ...input, labels }) : undefined;
+    // Previews get a job of their own, so a failing preview isn't retried
+    // together with the real run
+    const previewJob =
+      previewLabels.length > 0
+        ? await queue.enqueue({
+            ...input,
+            labels: previewLabels,
+            preview: true,
+          })
+        : undefined;
+    logger.info("Enqueued jobs", {
+      jobId: job?.id,
+      previewJobId: previewJob?.id,
+    });
+
+    // In-process queues are drained by this instance after responding,
+    // shared ones by the single worker
+    if (queue.local) {
+      waitUntil(drainQueue(queue, getDrainOptions()));
     }
-  `;
 
-function applyAnnotationToOmnivoreArticle(
-  articleId: string,
-  annotation: string,
-  omnivoreHeaders: Record<string, string>,
-  existingNote: { id: string; type: string } | null | undefined
-) {
-  if (existingNote) {
-    return updateAnnotationInOmnivoreArticle(
-      articleId,
-      annotation,
-      omnivoreHeaders,
-      existingNote
-    );
-  } else {
-    return addAnnotationToOmnivoreArticle(
-      articleId,
-      annotation,
-      omnivoreHeaders
+    return Response.json(
+      {
+        requestId,
+        articleId,
+        jobId: job?.id,
+        status: job?.status,
+        previewJobId: previewJob?.id,
+      },
+      { status: 202 }
     );
   }
-}
 
-async function updateAnnotationInOmnivoreArticle(
-  articleId: string,
-  annotation: string,
-  omnivoreHeaders: Record<string, string>,
-  existingNote: { id: string; type: string }
-) {
-  if (!existingNote) {
-    return new Response(
-      `No existing note found in Omnivore article: ${articleId}`,
-      { status: 404 }
-    );
+  const preview =
+    previewLabels.length > 0
+      ? await previewArticle({
+          requestId,
+          articleId,
+          labels: previewLabels,
+          annotateLabel,
+          draftNote: true,
+          logger,
+        })
+      : undefined;
+  if (labels.length === 0) {
+    return Response.json({ requestId, articleId, preview });
   }
 
-  try {
-    let mutationQuery: {
-      query: string;
-      variables: {
-        input: {
-          highlightId?: string;
-          annotation: string;
-          type?: string;
-          id?: string;
-          shortId?: string;
-          articleId?: string;
-        };
-      };
-    };
-
-    // Omnivore UI only shows one highlight note per article so
-    // if we have an existing note, update it; otherwise, create a new one
-
-    mutationQuery = {
-      query: `mutation UpdateHighlight($input: UpdateHighlightInput!) {
-      updateHighlight(input: $input) {
-        ... on UpdateHighlightSuccess {
-          highlight {
-            ...HighlightFields
-          }
-        }
-        ... on UpdateHighlightError {
-          errorCodes
-        }
-      }
-    }${baseFragment}`,
-      variables: {
-        input: {
-          highlightId: existingNote.id,
-          annotation: annotation,
-        },
-      },
-    };
-
-    const OmnivoreAnnotationRequest = await fetch(
-      "https://api-prod.omnivore.app/api/graphql",
-      {
-        method: "POST",
-        headers: omnivoreHeaders,
-        body: JSON.stringify(mutationQuery),
-      }
-    );
-    const OmnivoreAnnotationResponse =
-      (await OmnivoreAnnotationRequest.json()) as { data: unknown };
-    console.log(
-      `Article annotation updated to article "${articleId}" (ID: ${articleId}): ${JSON.stringify(
-        OmnivoreAnnotationResponse.data
-      )}`,
-      `Used this GraphQL query: ${JSON.stringify(mutationQuery)}`
-    );
+  const results = await processArticle({
+    requestId,
+    articleId,
+    labels,
+    annotateLabel,
+    logger,
+  });
 
-    return new Response(`Article annotation updated.`);
-  } catch (error) {
-    return new Response(
-      `Error adding annotation to Omnivore article: ${
-        (error as Error).message
-      }`,
-      { status: 500 }
-    );
-  }
+  // Only fail the delivery if nothing could be done at all
+  const failed = results.every(({ status }) => status === "failed");
+  return Response.json(
+    { requestId, articleId, results, preview },
+    { status: failed ? 500 : 200 }
+  );
 }
-async function addAnnotationToOmnivoreArticle(
-  articleId: string,
-  annotation: string,
-  omnivoreHeaders: Record<string, string>
-) {
-  try {
-    let mutationQuery: {
-      query: string;
-      variables: {
-        input: {
-          highlightId?: string;
-          annotation: string;
-          type?: string;
-          id?: string;
-          shortId?: string;
-          articleId?: string;
-        };
-      };
-    };
 
-    const id = uuidv4();
-    const shortId = id.substring(0, 8);
-
-    mutationQuery = {
-      query: `mutation CreateHighlight($input: CreateHighlightInput!) {
-  createHighlight(input: $input) {
-    ... on CreateHighlightSuccess {
-      highlight {
-        ...HighlightFields
-      }
-    }
-    ... on CreateHighlightError {
-      errorCodes
-    }
+// Refuses work once the daily or monthly budget is used up
+async function checkBudget(logger: Logger): Promise<Response | undefined> {
+  const budgetError = await getBudgetError(getStore(), getConfig().usage);
+  if (!budgetError) {
+    return undefined;
   }
-}${baseFragment}`,
-      variables: {
-        input: {
-          type: "NOTE",
-          id: id,
-          shortId: shortId,
-          articleId: articleId,
-          annotation: annotation,
-        },
-      },
-    };
-
-    const OmnivoreAnnotationRequest = await fetch(
-      "https://api-prod.omnivore.app/api/graphql",
-      {
-        method: "POST",
-        headers: omnivoreHeaders,
-        body: JSON.stringify(mutationQuery),
-      }
-    );
-    const OmnivoreAnnotationResponse =
-      (await OmnivoreAnnotationRequest.json()) as { data: unknown };
-    console.log(
-      `Article annotation added to article "${articleId}" (ID: ${articleId}): ${JSON.stringify(
-        OmnivoreAnnotationResponse.data
-      )}`,
-      `Used this GraphQL query: ${JSON.stringify(mutationQuery)}`
-    );
+  logger.warn("Budget used up, refusing work", { reason: budgetError });
+  return new Response(budgetError, { status: 429 });
+}
 
-    return new Response(`Article annotation added.`);
-  } catch (error) {
-    return new Response(
-      `Error adding annotation to Omnivore article: ${
-        (error as Error).message
-      }`,
-      { status: 500 }
-    );
-  }
+// A query parameter or header, e.g. `?dryRun` or `X-Dry-Run: true`
+function isDryRunRequest(req: Request): boolean {
+  const value =
+    new URL(req.url).searchParams.get("dryRun") ?? req.headers.get("x-dry-run");
+  return value !== null && !["0", "false"].includes(value.toLowerCase());
 }
@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from "uuid";
+import { isAuthConfigured, verifyWebhookRequest } from "../lib/auth";
+import { getConfig } from "../lib/config";
+import { createLogger } from "../lib/logger";
+import { getOmnivoreClient } from "../lib/pipeline";
+import { isPipelineLabel } from "../lib/prompts";
+import { suggestLabelMerges } from "../lib/taxonomy";
+
+export const config = {
+  runtime: "edge",
+};
+
+// Reports labels of the account that look like duplicates, e.g.
+// GET /api/labels?token=<secret>&similarity=0.7
+export default async (req: Request): Promise<Response> => {
+  const requestId = uuidv4();
+  const logger = createLogger({ requestId });
+  logger.info("Starting label merge report");
+
+  try {
+    // Unlike the webhook this endpoint only reads, but it lists the whole
+    // account, so it's never open
+    if (!isAuthConfigured()) {
+      return new Response(
+        `Set WEBHOOK_SECRET or WEBHOOK_HMAC_SECRET to use this endpoint.`,
+        { status: 401 }
+      );
+    }
+    const authError = await verifyWebhookRequest(req, await req.text());
+    if (authError) {
+      logger.info("Rejected request", { reason: authError.message });
+      return new Response(authError.message, { status: authError.status });
+    }
+    const { taxonomy } = getConfig();
+
+    const param = new URL(req.url).searchParams.get("similarity");
+    const similarity = param ? Number(param) : taxonomy.similarity;
+    if (!(similarity >= 0 && similarity <= 1)) {
+      return new Response(`"similarity" must be a number between 0 and 1.`, {
+        status: 400,
+      });
+    }
+
+    const labels = (await getOmnivoreClient(logger).getLabels()).filter(
+      ({ name }) => !isPipelineLabel(name)
+    );
+    const suggestions = suggestLabelMerges(labels, similarity);
+    logger.info("Built label merge report", {
+      suggestions: suggestions.length,
+      labels: labels.length,
+    });
+
+    return Response.json({
+      requestId,
+      similarity,
+      labelCount: labels.length,
+      suggestions,
+    });
+  } catch (error) {
+    logger.error("Error building label report", { error });
+    return new Response(
+      `Error building label report: ${(error as Error).message}`,
+      { status: 500 }
+    );
+  }
+};
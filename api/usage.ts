@@ -0,0 +1,61 @@
+import { v4 as uuidv4 } from "uuid";
+import { isAuthConfigured, verifyWebhookRequest } from "../lib/auth";
+import { getConfig } from "../lib/config";
+import { createLogger } from "../lib/logger";
+import { getStore } from "../lib/store";
+import { readUsageLog, summarizeUsage } from "../lib/usage";
+
+export const config = {
+  runtime: "edge",
+};
+
+// Reports the tokens and estimated cost of a day by action and model, e.g.
+// GET /api/usage?token=<secret>&date=2024-03-02 (today in UTC if omitted)
+export default async (req: Request): Promise<Response> => {
+  const requestId = uuidv4();
+  const logger = createLogger({ requestId });
+  logger.info("Starting usage report");
+
+  try {
+    // The log lists article IDs, so like the label report it's never open
+    if (!isAuthConfigured()) {
+      return new Response(
+        `Set WEBHOOK_SECRET or WEBHOOK_HMAC_SECRET to use this endpoint.`,
+        { status: 401 }
+      );
+    }
+    const authError = await verifyWebhookRequest(req, await req.text());
+    if (authError) {
+      logger.info("Rejected request", { reason: authError.message });
+      return new Response(authError.message, { status: authError.status });
+    }
+    const { dailyBudget, monthlyBudget } = getConfig().usage;
+
+    const date =
+      new URL(req.url).searchParams.get("date") ??
+      new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return new Response(`"date" must be a day like 2024-03-02.`, {
+        status: 400,
+      });
+    }
+
+    const entries = await readUsageLog(getStore(), date);
+    logger.info("Built usage report", { date, entries: entries.length });
+
+    return Response.json({
+      requestId,
+      date,
+      dailyBudget,
+      monthlyBudget,
+      ...summarizeUsage(entries),
+      entries,
+    });
+  } catch (error) {
+    logger.error("Error building usage report", { error });
+    return new Response(
+      `Error building usage report: ${(error as Error).message}`,
+      { status: 500 }
+    );
+  }
+};
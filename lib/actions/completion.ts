@@ -0,0 +1,5 @@
+import { createNoteAction } from "./note";
+import { FALLBACK_ACTION, registerAction } from "./registry";
+
+// Plain completion of the label description (or OPENAI_PROMPT)
+registerAction(createNoteAction({ name: FALLBACK_ACTION }));
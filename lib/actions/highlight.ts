@@ -0,0 +1,77 @@
+import { locateQuote } from "../highlights";
+import { arrayToPromptGenerator } from "../prompts";
+import { registerAction } from "./registry";
+
+interface GeneratedHighlights {
+  highlights: Array<{ quote: string; reason: string }>;
+}
+
+registerAction<GeneratedHighlights>({
+  name: "highlight",
+  defaultPrompt:
+    "Highlight the three to seven most insightful passages of the following article.",
+  buildPrompt: async ({ labelAction }) =>
+    arrayToPromptGenerator([
+      "Respond with the passages to highlight and a short reason for each. Quote every passage exactly as it appears in the article content: don't change, shorten or join sentences, and keep each quote within one paragraph.",
+      ...labelAction.prompts,
+    ]),
+  schema: {
+    name: "highlight_list",
+    schema: {
+      type: "object",
+      properties: {
+        highlights: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              quote: {
+                type: "string",
+              },
+              reason: {
+                type: "string",
+              },
+            },
+            required: ["quote", "reason"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["highlights"],
+      additionalProperties: false,
+    },
+  },
+  parseOutput: (content) => JSON.parse(content) as GeneratedHighlights,
+  reduce: async (_context, outputs) => ({
+    highlights: outputs.flatMap(({ highlights }) => highlights ?? []),
+  }),
+  write: async ({ logger, article, omnivore }, { highlights }) => {
+    let created = 0;
+    const skipped: string[] = [];
+
+    for (const { quote, reason } of highlights ?? []) {
+      const located = locateQuote(article.content, quote);
+      if (!located) {
+        skipped.push(quote);
+        continue;
+      }
+
+      await omnivore.createHighlight({
+        type: "HIGHLIGHT",
+        articleId: article.id,
+        annotation: reason,
+        ...located,
+      });
+      created++;
+    }
+
+    if (skipped.length > 0) {
+      logger.info("Quotes not found in the article", { quotes: skipped });
+    }
+
+    return {
+      status: 200,
+      message: `Created ${created} highlights, skipped ${skipped.length} quotes not found in the article.`,
+    };
+  },
+});
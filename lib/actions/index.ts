@@ -0,0 +1,19 @@
+// Built-in actions register themselves on import. New `do:*` verbs are added
+// by creating a module that calls `registerAction` and importing it here.
+import "./completion";
+import "./highlight";
+import "./summary";
+import "./tags";
+import "./task";
+import "./transcription";
+import "./translate";
+
+export { getAction, listActions, registerAction, resolveAction } from "./registry";
+export type {
+  ActionContext,
+  ActionDefinition,
+  ActionResult,
+  RequestContext,
+} from "./registry";
+export { runLabelAction, runLabelActions } from "./run";
+export type { ActionReport } from "./run";
@@ -0,0 +1,117 @@
+import { getCompletion } from "../completion";
+import { getConfig } from "../config";
+import { replaceNoteSection, sectionTitle } from "../notebook";
+import { applyAnnotationToOmnivoreArticle } from "../omnivore";
+import { arrayToPromptGenerator } from "../prompts";
+import { formatUsageFooter } from "../usage";
+import type { ActionContext, ActionDefinition } from "./registry";
+
+type MergeChunks = "summarize" | "concatenate";
+
+// A fixed value or one that depends on the label, e.g. its target language
+type PerLabel<Value> = Value | ((context: ActionContext) => Value);
+
+interface NoteActionOptions {
+  name: string;
+  // Heading of the action's section in the note, derived from the label
+  // (e.g. "Key points" for `do:key-points`) if omitted
+  section?: PerLabel<string>;
+  defaultPrompt?: string;
+  skip?: (context: ActionContext) => string | undefined;
+  buildPrompt?: (context: ActionContext) => Promise<string>;
+  // How the results of the chunks of long articles are merged: summarized
+  // by another completion or simply concatenated in order
+  mergeChunks?: PerLabel<MergeChunks>;
+  // Applied to the completion before it's written into the section
+  formatNote?: (context: ActionContext, annotation: string) => string;
+}
+
+// Actions whose plain text completion goes into their own section of the
+// article notebook
+export function createNoteAction({
+  name,
+  section,
+  defaultPrompt,
+  skip,
+  buildPrompt,
+  mergeChunks = "summarize",
+  formatNote = (_context, annotation) => annotation,
+}: NoteActionOptions): ActionDefinition<string> {
+  const parseOutput = (content: string) => content.trim();
+
+  return {
+    name,
+    defaultPrompt,
+    skip,
+    buildPrompt:
+      buildPrompt ??
+      (async ({ labelAction }) =>
+        arrayToPromptGenerator([...labelAction.prompts])),
+    parseOutput,
+    concatenatesChunks: (context) =>
+      resolve(mergeChunks, context) === "concatenate",
+    reduce: async (context, outputs) => {
+      const { article, labelAction, logger, usage } = context;
+      if (resolve(mergeChunks, context) === "concatenate") {
+        return outputs.join("\n\n");
+      }
+
+      const content = await logger.time("model", () =>
+        getCompletion(
+          arrayToPromptGenerator([
+            `The article "${article.title}" was too long to process at once, so it was split into parts. Merge the results of the parts below into one response that follows the original instruction. Don't mention the parts.`,
+            `Original instruction: ${labelAction.instruction}`,
+            ...outputs.map(
+              (output, index) => `Result for part ${index + 1}: ${output}`
+            ),
+          ]),
+          undefined,
+          labelAction.completionOptions,
+          usage
+        )
+      );
+      if (!content) {
+        throw new Error("No response from the model when merging chunks.");
+      }
+      return parseOutput(content);
+    },
+    write: async (context, annotation) => {
+      const { article, omnivore, labelAction, usage } = context;
+      if (!annotation) {
+        return { status: 500, message: `No generated response from the model.` };
+      }
+      // All completions are done by now, the merge of long articles too
+      const models = usage.models();
+      const note = formatNote(context, annotation);
+      const content =
+        getConfig().usage.noteFooter && models.length > 0
+          ? `${note}\n\n${formatUsageFooter(models)}`
+          : note;
+
+      // Only this action's section is replaced, the user's own text and the
+      // sections of other actions stay as they are
+      const title =
+        resolve(section, context) ??
+        sectionTitle(labelAction.action ?? labelAction.processLabel);
+      article.existingNote = await applyAnnotationToOmnivoreArticle(
+        omnivore,
+        article.id,
+        replaceNoteSection(article.existingNote?.annotation, title, content),
+        article.existingNote
+      );
+      return {
+        status: 200,
+        message: `Annotation applied to the "${title}" section of the note.`,
+      };
+    },
+  };
+}
+
+function resolve<Value>(
+  value: PerLabel<Value> | undefined,
+  context: ActionContext
+): Value | undefined {
+  return typeof value === "function"
+    ? (value as (context: ActionContext) => Value)(context)
+    : value;
+}
@@ -0,0 +1,94 @@
+import type { Prompt } from "../completion";
+import type { ResponseSchema } from "../llm";
+import type { Logger } from "../logger";
+import type { OmnivoreClient } from "../omnivore";
+import type { KeyValueStore } from "../store";
+import type { Article, Label, LabelAction } from "../types";
+import type { UsageMeter } from "../usage";
+
+// Shared by all actions of one webhook request
+export interface RequestContext {
+  requestId: string;
+  // Carries the request ID and article ID into every entry
+  logger: Logger;
+  article: Article;
+  annotateLabel: string;
+  omnivore: OmnivoreClient;
+  // All labels of the account, fetched once per request
+  getAllLabels(): Promise<Label[]>;
+  // Shared with other deliveries, for deduplication
+  store: KeyValueStore;
+  // Omnivore writes are only recorded, deliveries aren't deduplicated
+  dryRun: boolean;
+}
+
+export interface ActionContext extends RequestContext {
+  labelAction: LabelAction;
+  // Tokens of the action's completions, pass it to getCompletion
+  usage: UsageMeter;
+}
+
+export type ActionSchema = ResponseSchema;
+
+export interface ActionResult {
+  status: number;
+  message: string;
+}
+
+export interface ActionDefinition<Output = string> {
+  // Suffix of the trigger label, e.g. "tags" for `do:tags`
+  name: string;
+  // Actions run in ascending order, DEFAULT_ACTION_ORDER if omitted
+  order?: number;
+  // Instruction used when the label has no description
+  defaultPrompt?: string;
+  // Returns why there is nothing to do for the article, e.g. a translation
+  // into the language it's written in. Checked before any completion, the
+  // trigger label is consumed like after a successful run.
+  skip?(context: ActionContext): string | undefined;
+  // Not called for labels whose description is a prompt template
+  buildPrompt(context: ActionContext): Promise<Prompt>;
+  // JSON schema the completion must follow, plain text if omitted
+  schema?: ActionSchema;
+  parseOutput(content: string): Output;
+  // Merges the outputs of the chunks of an article that is too long for a
+  // single prompt. Without it only the first chunk is processed.
+  reduce?(context: ActionContext, outputs: Output[]): Promise<Output>;
+  // True if reduce puts the outputs together as they are. Each completion
+  // is then as long as its chunk, so the chunks are sized by the model's
+  // output limit instead of its context window.
+  concatenatesChunks?(context: ActionContext): boolean;
+  write(context: ActionContext, output: Output): Promise<ActionResult>;
+}
+
+export const DEFAULT_ACTION_ORDER = 100;
+
+// Used for the bare trigger label and for verbs nobody registered
+export const FALLBACK_ACTION = "completion";
+
+const actions = new Map<string, ActionDefinition<unknown>>();
+
+export function registerAction<Output>(
+  definition: ActionDefinition<Output>
+): void {
+  if (actions.has(definition.name)) {
+    throw new Error(`Action "${definition.name}" is already registered.`);
+  }
+  actions.set(definition.name, definition as ActionDefinition<unknown>);
+}
+
+export function getAction(
+  name: string | undefined
+): ActionDefinition<unknown> | undefined {
+  return name ? actions.get(name) : undefined;
+}
+
+export function resolveAction(
+  name: string | undefined
+): ActionDefinition<unknown> | undefined {
+  return getAction(name) ?? actions.get(FALLBACK_ACTION);
+}
+
+export function listActions(): string[] {
+  return [...actions.keys()];
+}
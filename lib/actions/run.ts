@@ -0,0 +1,271 @@
+import {
+  chunkMarkdown,
+  getOutputTokenBudget,
+  getTokenBudget,
+} from "../chunking";
+import { getCompletion, getModel } from "../completion";
+import { getConfig } from "../config";
+import { diffLabels, mergeLabels } from "../labels";
+import type { LabelDiff } from "../labels";
+import { applyLabelToOmnivoreArticle } from "../omnivore";
+import {
+  claimIdempotencyKey,
+  getIdempotencyKey,
+  releaseIdempotencyKey,
+} from "../idempotency";
+import { articlePrompts } from "../prompts";
+import {
+  getTemplateVariables,
+  isPromptTemplate,
+  renderPromptTemplate,
+} from "../templates";
+import type { LabelAction } from "../types";
+import { createUsageMeter, getBudgetError, recordUsage } from "../usage";
+import type { ModelUsage } from "../usage";
+import { DEFAULT_ACTION_ORDER, resolveAction } from "./registry";
+import type { ActionContext, ActionResult, RequestContext } from "./registry";
+
+export interface ActionReport {
+  label: string;
+  action: string;
+  status: "done" | "failed" | "skipped";
+  message: string;
+  // Labels the action added to or removed from the page
+  labels?: LabelDiff;
+  // Tokens and estimated cost of the action's completions
+  usage?: ModelUsage[];
+}
+
+// Runs every label action one after another, a failing action doesn't stop
+// the ones after it.
+export async function runLabelActions(
+  labelActions: LabelAction[],
+  requestContext: RequestContext
+): Promise<ActionReport[]> {
+  const reports: ActionReport[] = [];
+  const { usage: usageOptions } = getConfig();
+
+  for (const labelAction of sortLabelActions(labelActions)) {
+    const usage = createUsageMeter(usageOptions.prices);
+    const action = resolveAction(labelAction.action)?.name ?? "";
+    const logger = requestContext.logger.child({
+      label: labelAction.label,
+      action,
+    });
+    const context: ActionContext = {
+      ...requestContext,
+      logger,
+      labelAction,
+      usage,
+    };
+    const report = (
+      status: ActionReport["status"],
+      message: string,
+      labels?: LabelDiff
+    ) => {
+      const models = usage.models();
+      reports.push({
+        label: labelAction.label,
+        action,
+        status,
+        message,
+        ...(labels && { labels }),
+        ...(models.length > 0 && { usage: models }),
+      });
+    };
+
+    const { requestId, article, store, dryRun } = requestContext;
+
+    // Checked before every action, a long run stops once the budget is
+    // used up
+    const budgetError = await getBudgetError(store, usageOptions);
+    if (budgetError) {
+      logger.warn("Budget used up, not running the action", {
+        reason: budgetError,
+      });
+      report("failed", budgetError);
+      continue;
+    }
+
+    // A preview neither holds back nor is held back by the real run
+    const idempotencyKey = dryRun
+      ? undefined
+      : await getIdempotencyKey(article.id, labelAction.label, article.content);
+    const release = async () =>
+      idempotencyKey && releaseIdempotencyKey(store, idempotencyKey);
+    if (
+      idempotencyKey &&
+      !(await claimIdempotencyKey(store, idempotencyKey, requestId))
+    ) {
+      logger.info("Skipping the action, it was delivered before");
+      report("skipped", `Already processed for this article content.`);
+      continue;
+    }
+
+    try {
+      const labelsBefore = article.labels;
+      const { status, message } = await runLabelAction(context);
+      if (status >= 400) {
+        await release();
+        report("failed", message);
+        continue;
+      }
+
+      await consumeTriggerLabel(context);
+      report("done", message, diffLabels(labelsBefore, article.labels));
+    } catch (error) {
+      logger.error("Action failed", { error });
+      await release();
+      report("failed", (error as Error).message);
+    } finally {
+      // Tokens are paid for whether the action succeeded or not
+      await recordUsage(
+        store,
+        usage.models().map((model) => ({
+          requestId,
+          articleId: article.id,
+          label: labelAction.label,
+          action,
+          ...model,
+          createdAt: new Date().toISOString(),
+        }))
+      );
+    }
+  }
+
+  return reports;
+}
+
+function sortLabelActions(labelActions: LabelAction[]): LabelAction[] {
+  const order = (labelAction: LabelAction) =>
+    resolveAction(labelAction.action)?.order ?? DEFAULT_ACTION_ORDER;
+  // Array.prototype.sort is stable, equal actions keep the label order
+  return [...labelActions].sort((a, b) => order(a) - order(b));
+}
+
+export async function runLabelAction(
+  context: ActionContext
+): Promise<ActionResult> {
+  const { logger, labelAction } = context;
+  const definition = resolveAction(labelAction.action);
+  if (!definition) {
+    return {
+      status: 400,
+      message: `No action registered for label "${labelAction.label}".`,
+    };
+  }
+
+  logger.info("Running action");
+
+  if (labelAction.settingsErrors.length > 0) {
+    return {
+      status: 400,
+      message: `Invalid settings in the description of "${
+        labelAction.label
+      }": ${labelAction.settingsErrors.join(" ")}`,
+    };
+  }
+
+  const skipReason = definition.skip?.(context);
+  if (skipReason) {
+    logger.info("Nothing to do for the article", { reason: skipReason });
+    return { status: 200, message: skipReason };
+  }
+
+  const { article } = context;
+  const { completionOptions } = labelAction;
+  const model = completionOptions.model ?? getModel();
+  const chunks = chunkMarkdown(
+    article.content,
+    definition.concatenatesChunks?.(context)
+      ? getOutputTokenBudget(model, completionOptions.maxTokens)
+      : getTokenBudget(model)
+  );
+  if (chunks.length > 1) {
+    logger.info(
+      `Article content split into ${chunks.length} chunks${
+        definition.reduce ? "" : ", only the first one is processed"
+      }`
+    );
+  }
+
+  // Map: every chunk is processed like a complete article
+  const outputs: unknown[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    if (index > 0 && !definition.reduce) {
+      break;
+    }
+
+    // A templated label description defines the whole prompt, otherwise
+    // the action lays it out
+    const chunkArticle = { ...article, content: chunk };
+    const prompt = isPromptTemplate(labelAction.instruction)
+      ? renderPromptTemplate(
+          labelAction.instruction,
+          getTemplateVariables(chunkArticle)
+        )
+      : await definition.buildPrompt({
+          ...context,
+          article: chunkArticle,
+          labelAction: {
+            ...labelAction,
+            prompts: articlePrompts(labelAction.instruction, chunkArticle),
+          },
+        });
+    logger.debug("Prompt", { prompt });
+
+    const content = await logger.time("model", () =>
+      getCompletion(
+        prompt,
+        definition.schema,
+        completionOptions,
+        context.usage
+      )
+    );
+    if (!content) {
+      logger.warn("No response from the model");
+      return { status: 500, message: `No response from the model.` };
+    }
+    outputs.push(definition.parseOutput(content));
+  }
+
+  // Reduce: merge the partial outputs
+  const output =
+    outputs.length > 1 && definition.reduce
+      ? await definition.reduce(context, outputs)
+      : outputs[0];
+  return logger.time("write-back", () => definition.write(context, output));
+}
+
+// Swaps the trigger label for its did: counterpart on this article only. The
+// label itself stays in the account, together with the prompt in its
+// description, so it can be added to the next article.
+async function consumeTriggerLabel({
+  logger,
+  article,
+  labelAction,
+  omnivore,
+  getAllLabels,
+}: ActionContext): Promise<void> {
+  const labels = mergeLabels(article.labels, {
+    add: [{ name: labelAction.replacedLabel, description: "" }],
+    remove: [labelAction.label],
+  });
+  // Actions that set labels themselves may have done it already
+  const { added, removed } = diffLabels(article.labels, labels);
+  if (added.length === 0 && removed.length === 0) {
+    return;
+  }
+
+  logger.info(`Marking the label as "${labelAction.replacedLabel}"`);
+  const allLabels = await getAllLabels();
+  article.labels = await logger.time("write-back", () =>
+    applyLabelToOmnivoreArticle(
+      omnivore,
+      article.id,
+      labels,
+      allLabels,
+      logger
+    )
+  );
+}
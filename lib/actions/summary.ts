@@ -0,0 +1,4 @@
+import { createNoteAction } from "./note";
+import { registerAction } from "./registry";
+
+registerAction(createNoteAction({ name: "summary" }));
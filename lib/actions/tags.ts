@@ -0,0 +1,161 @@
+import { getConfig } from "../config";
+import { mergeLabels } from "../labels";
+import { applyLabelToOmnivoreArticle } from "../omnivore";
+import {
+  arrayToPromptGenerator,
+  isPipelineLabel,
+  labelsToPrompt,
+} from "../prompts";
+import { resolveTags } from "../taxonomy";
+import { registerAction } from "./registry";
+
+interface Tag {
+  name: string;
+  description: string;
+}
+
+interface GeneratedTags {
+  tags: Tag[];
+}
+
+registerAction<GeneratedTags>({
+  name: "tags",
+  // Runs first, so in "replace" mode the did: labels of the other actions
+  // are set after the tags
+  order: 10,
+  // Personal preferences go into the label description or the tags prompt
+  // in config.json
+  defaultPrompt:
+    "Generate a list of useful tags that could be added to this article, each with a name and a really short description or an empty string. Please keep with the existing taxonomy and use the same language as the existing tags. Don’t have multiple tags referring to the same topic. Please reuse existing tags if they are similar.",
+  buildPrompt: async ({ article, labelAction, annotateLabel, getAllLabels }) => {
+    const articleLabelsPrompt = labelsToPrompt(
+      article.labels,
+      annotateLabel,
+      "Existing article tags: ",
+      true
+    );
+
+    const allLabelsPrompt = labelsToPrompt(
+      await getAllLabels(),
+      annotateLabel,
+      "All labels in Omnivore: ",
+      true
+    );
+
+    return arrayToPromptGenerator([
+      ...labelAction.prompts,
+      articleLabelsPrompt,
+      allLabelsPrompt,
+    ]);
+  },
+  schema: {
+    name: "tag_list",
+    schema: {
+      type: "object",
+      properties: {
+        tags: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+              },
+              description: {
+                type: "string",
+              },
+            },
+            required: ["name", "description"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["tags"],
+      additionalProperties: false,
+    },
+  },
+  parseOutput: (content) => JSON.parse(content) as GeneratedTags,
+  // Keeps the tags suggested for most chunks, as many as the longest list
+  reduce: async (_context, outputs) => {
+    const counts = new Map<string, { tag: Tag; count: number }>();
+    for (const { tags } of outputs) {
+      for (const tag of tags ?? []) {
+        const key = tag.name.toLowerCase();
+        const entry = counts.get(key) ?? { tag, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+    }
+
+    const limit = Math.max(...outputs.map(({ tags }) => tags?.length ?? 0));
+    return {
+      tags: [...counts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit)
+        .map(({ tag }) => tag),
+    };
+  },
+  write: async (
+    { logger, article, labelAction, omnivore, getAllLabels },
+    generatedTags
+  ) => {
+    logger.debug("Generated tags", { tags: generatedTags?.tags });
+
+    if (!generatedTags?.tags?.length) {
+      return { status: 200, message: `No new tags generated.` };
+    }
+
+    // Near-duplicates of existing labels are replaced by them
+    const allLabels = await getAllLabels();
+    const { labels, matched, dropped } = resolveTags(
+      generatedTags.tags,
+      allLabels,
+      getConfig().taxonomy,
+      isPipelineLabel
+    );
+    logger.info("Resolved tags", {
+      labels: labels.map(({ name }) => name),
+      matched,
+      dropped,
+    });
+
+    if (labels.length === 0) {
+      return { status: 200, message: `No new tags left after filtering.` };
+    }
+
+    // One update for the tags and the trigger label's transition. Trigger
+    // and did: labels are kept in "replace" mode too.
+    const { labelMode } = getConfig();
+    article.labels = await applyLabelToOmnivoreArticle(
+      omnivore,
+      article.id,
+      mergeLabels(
+        article.labels,
+        {
+          add: [
+            ...labels,
+            { name: labelAction.replacedLabel, description: "" },
+          ],
+          remove: [labelAction.label],
+        },
+        labelMode,
+        isPipelineLabel
+      ),
+      allLabels,
+      logger
+    );
+
+    return {
+      status: 200,
+      message: [
+        labelMode === "replace"
+          ? `Article labels replaced by the generated tags.`
+          : `New tags added to the article.`,
+        ...matched.map(
+          ({ tag, label }) => `"${tag}" matched existing label "${label}".`
+        ),
+        ...dropped.map(({ tag, reason }) => `"${tag}" dropped: ${reason}.`),
+      ].join(" "),
+    };
+  },
+});
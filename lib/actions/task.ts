@@ -0,0 +1,15 @@
+import { arrayToPromptGenerator } from "../prompts";
+import { createNoteAction } from "./note";
+import { registerAction } from "./registry";
+
+// The label description describes a task to carry out on the article
+registerAction(
+  createNoteAction({
+    name: "task",
+    buildPrompt: async ({ labelAction }) =>
+      arrayToPromptGenerator([
+        "Carry out the task below using the article that follows. Respond only with the result.",
+        ...labelAction.prompts,
+      ]),
+  })
+);
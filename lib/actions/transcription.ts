@@ -0,0 +1,11 @@
+import { createNoteAction } from "./note";
+import { registerAction } from "./registry";
+
+registerAction(
+  createNoteAction({
+    name: "transcription",
+    mergeChunks: "concatenate",
+    defaultPrompt:
+      "Turn the following article content into a clean, readable transcription. Fix punctuation and paragraphs, but don't summarize or leave anything out.",
+  })
+);
@@ -0,0 +1,70 @@
+import { getConfig } from "../config";
+import { arrayToPromptGenerator } from "../prompts";
+import {
+  findLanguage,
+  isRightToLeft,
+  isSameLanguage,
+  resolveLanguage,
+  setTextDirection,
+} from "../translation";
+import type { Language, TranslationMode } from "../translation";
+import { createNoteAction } from "./note";
+import { registerAction } from "./registry";
+import type { ActionContext } from "./registry";
+
+const DEFAULT_PROMPTS: Record<TranslationMode, string> = {
+  summary: "Summarize the following article in a few short paragraphs.",
+  full: "Translate the following article in full. Keep the meaning, the tone and the markdown structure, like headings, lists and links. Don't summarize or leave anything out, respond only with the translation.",
+};
+
+// `do:translate:<language>` takes a code or a name, e.g. `do:translate:de`
+// or `do:translate:german`, `do:translate` the configured target language
+function getTargetLanguage({ labelAction }: ActionContext): Language {
+  const language = labelAction.label.split(":")[2]?.trim();
+  return resolveLanguage(language || getConfig().translation.targetLanguage);
+}
+
+const action = createNoteAction({
+  name: "translate",
+  // One section per target language, translations into several languages
+  // don't replace each other
+  section: (context) => `Translation (${getTargetLanguage(context).name})`,
+  skip: (context) => {
+    const source = findLanguage(context.article.language);
+    const target = getTargetLanguage(context);
+    return source && isSameLanguage(source, target)
+      ? `The article is already in ${target.name}, nothing to translate.`
+      : undefined;
+  },
+  buildPrompt: async (context) => {
+    const source = findLanguage(context.article.language);
+    const [instruction, ...article] = context.labelAction.prompts;
+    return arrayToPromptGenerator([
+      instruction,
+      `Write the whole response in ${getTargetLanguage(context).name}${
+        source ? `, the article is written in ${source.name}` : ""
+      }.`,
+      ...article,
+    ]);
+  },
+  // The parts of a full translation only need to be put back together, so
+  // each part has to fit into the model's output limit
+  mergeChunks: () =>
+    getConfig().translation.mode === "full" ? "concatenate" : "summarize",
+  // Right-to-left text, or left-to-right text on a right-to-left article,
+  // would otherwise take the direction of whatever the app guesses
+  formatNote: (context, annotation) => {
+    const target = getTargetLanguage(context);
+    return target.rtl || isRightToLeft(context.article)
+      ? setTextDirection(annotation, target.rtl)
+      : annotation;
+  },
+});
+
+registerAction({
+  ...action,
+  // Follows the configured mode when the label has no description
+  get defaultPrompt() {
+    return DEFAULT_PROMPTS[getConfig().translation.mode];
+  },
+});
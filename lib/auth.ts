@@ -0,0 +1,84 @@
+import { hmacSha256Hex } from "./crypto";
+
+export const DEFAULT_SIGNATURE_HEADER = "x-omnivore-signature";
+
+export interface AuthError {
+  status: 401 | 403;
+  message: string;
+}
+
+// Checks the shared secret and the HMAC signature of a webhook request, as
+// far as they are configured. Returns undefined if the request may pass.
+export async function verifyWebhookRequest(
+  req: Request,
+  rawBody: string
+): Promise<AuthError | undefined> {
+  const secret = process.env["WEBHOOK_SECRET"];
+  if (secret) {
+    const token = getRequestToken(req);
+    if (!token) {
+      return {
+        status: 401,
+        message: `Missing webhook secret. Add it as "token" query parameter or as bearer token.`,
+      };
+    }
+    if (!safeEqual(token, secret)) {
+      return { status: 401, message: `Invalid webhook secret.` };
+    }
+  }
+
+  const hmacSecret = process.env["WEBHOOK_HMAC_SECRET"];
+  if (hmacSecret) {
+    const header =
+      process.env["WEBHOOK_SIGNATURE_HEADER"] || DEFAULT_SIGNATURE_HEADER;
+    const signature = req.headers.get(header)?.replace(/^sha256=/, "");
+    if (!signature) {
+      return { status: 401, message: `Missing "${header}" signature header.` };
+    }
+    const expected = await hmacSha256Hex(hmacSecret, rawBody);
+    if (!safeEqual(signature.toLowerCase(), expected)) {
+      return { status: 401, message: `Invalid webhook signature.` };
+    }
+  }
+
+  return undefined;
+}
+
+// Webhooks of other Omnivore accounts must not write with our API key
+export function verifyWebhookUser(
+  userId: string | undefined
+): AuthError | undefined {
+  const expectedUserId = process.env["OMNIVORE_USER_ID"];
+  if (expectedUserId && userId !== expectedUserId) {
+    return {
+      status: 403,
+      message: `Webhook payload belongs to another Omnivore user.`,
+    };
+  }
+  return undefined;
+}
+
+export function isAuthConfigured(): boolean {
+  return !!(
+    process.env["WEBHOOK_SECRET"] || process.env["WEBHOOK_HMAC_SECRET"]
+  );
+}
+
+function getRequestToken(req: Request): string | null {
+  const token = new URL(req.url).searchParams.get("token");
+  if (token) {
+    return token;
+  }
+  const authorization = req.headers.get("Authorization");
+  return authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+}
+
+// Compares without returning early, so the time taken doesn't reveal how
+// much of the secret matched
+function safeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,103 @@
+import { chunkMarkdown, getTokenBudget } from "./chunking";
+import { getCompletion, getModel } from "./completion";
+import { getConfig } from "./config";
+import type { Logger } from "./logger";
+import type { OmnivoreClient } from "./omnivore";
+import { arrayToPromptGenerator } from "./prompts";
+import { getStore } from "./store";
+import type { Article, Highlight } from "./types";
+import { createUsageMeter, recordUsage } from "./usage";
+
+const DEFAULT_HIGHLIGHT_INSTRUCTION = "Explain this passage.";
+
+export interface HighlightReplyOptions {
+  requestId: string;
+  logger: Logger;
+  omnivore: OmnivoreClient;
+  article: Article;
+  highlight: Pick<Highlight, "id" | "quote" | "prefix" | "suffix">;
+  instruction: string;
+}
+
+// Returns the instruction following the trigger at the start of the
+// annotation, e.g. "explain" for "@ai explain", or undefined if the
+// annotation doesn't start with the trigger.
+export function parseHighlightTrigger(
+  annotation: string | null | undefined,
+  trigger: string
+): string | undefined {
+  const text = annotation?.trim() ?? "";
+  if (!text.toLowerCase().startsWith(trigger.toLowerCase())) {
+    return undefined;
+  }
+  return text.slice(trigger.length).trim() || DEFAULT_HIGHLIGHT_INSTRUCTION;
+}
+
+export function buildHighlightPrompt(
+  article: Article,
+  highlight: HighlightReplyOptions["highlight"],
+  instruction: string
+): string {
+  return arrayToPromptGenerator([
+    `The reader highlighted a passage of an article and asks: ${instruction}`,
+    "Answer in a few sentences, referring to the highlighted passage and the article as context.",
+    `Highlighted passage: ${highlight.quote ?? ""}`,
+    highlight.prefix || highlight.suffix
+      ? `Surrounding text: ${highlight.prefix ?? ""}[highlighted passage]${
+          highlight.suffix ?? ""
+        }`
+      : null,
+    `Article title: ${article.title}`,
+    `Article content: ${contentAround(article.content, highlight.quote)}`,
+  ]);
+}
+
+// The chunk of a long article that holds the highlighted passage, or its
+// first chunk if the passage isn't found
+function contentAround(content: string, quote: string | null | undefined) {
+  const chunks = chunkMarkdown(content, getTokenBudget(getModel()));
+  // The start of the passage, the end may fall into the next chunk
+  const start = quote?.trim().split("\n")[0].slice(0, 80);
+  return (start && chunks.find((chunk) => chunk.includes(start))) ?? chunks[0];
+}
+
+// Writes the answer into the highlight's annotation. The trigger is dropped
+// from the instruction, so the resulting HIGHLIGHT_UPDATED event doesn't ask
+// again.
+export async function replyToHighlight({
+  requestId,
+  logger,
+  omnivore,
+  article,
+  highlight,
+  instruction,
+}: HighlightReplyOptions): Promise<Highlight> {
+  const prompt = buildHighlightPrompt(article, highlight, instruction);
+  logger.debug("Highlight prompt", { prompt });
+
+  const usage = createUsageMeter(getConfig().usage.prices);
+  const answer = await logger.time("model", () =>
+    getCompletion(prompt, undefined, undefined, usage)
+  );
+  await recordUsage(
+    getStore(),
+    usage.models().map((model) => ({
+      requestId,
+      articleId: article.id,
+      label: "highlight",
+      action: "reply",
+      ...model,
+      createdAt: new Date().toISOString(),
+    }))
+  );
+  if (!answer) {
+    throw new Error("No response from the model.");
+  }
+
+  return logger.time("write-back", () =>
+    omnivore.updateHighlight({
+      highlightId: highlight.id,
+      annotation: `> ${instruction}\n\n${answer.trim()}`,
+    })
+  );
+}
@@ -0,0 +1,138 @@
+import { getConfig } from "./config";
+
+// Rough estimate for English text, good enough to stay below context limits
+const CHARS_PER_TOKEN = 4;
+
+// Context windows of common models
+const CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128_000,
+  "gpt-4o-mini": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-4": 8_192,
+  "gpt-3.5-turbo": 16_385,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Most tokens a single completion may have. Anthropic models stop at the
+// max_tokens the provider sends by default.
+const OUTPUT_LIMITS: Record<string, number> = {
+  "gpt-4o": 16_384,
+  "gpt-4o-mini": 16_384,
+  "gpt-4-turbo": 4_096,
+  "gpt-4": 4_096,
+  "gpt-3.5-turbo": 4_096,
+  claude: 4_096,
+};
+
+const DEFAULT_OUTPUT_LIMIT = 4_096;
+
+// Share of the context window left for the article content, the rest is
+// needed for instructions, label lists and the completion
+const CONTENT_SHARE = 0.5;
+
+// Share of the output limit for the content of actions whose completion is
+// as long as the content, a translation can take more tokens than the source
+const OUTPUT_SHARE = 0.5;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Tokens of article content that fit into a single prompt for the model.
+// llm.tokenBudgets overrides them per model, e.g. `{"gpt-4o-mini": 20000}`.
+export function getTokenBudget(model: string): number {
+  const budgets = getConfig().llm.tokenBudgets;
+  if (budgets[model]) {
+    return budgets[model];
+  }
+
+  const contextWindow =
+    findByPrefix(CONTEXT_WINDOWS, model) ?? DEFAULT_CONTEXT_WINDOW;
+  return Math.floor(contextWindow * CONTENT_SHARE);
+}
+
+// Tokens of article content per prompt for actions that put the completions
+// of the chunks together as they are, like a transcription. Each completion
+// is about as long as its chunk and has to fit into the output limit, or
+// the label's max_tokens if it sets one.
+export function getOutputTokenBudget(
+  model: string,
+  maxTokens?: number
+): number {
+  const outputLimit =
+    maxTokens ?? findByPrefix(OUTPUT_LIMITS, model) ?? DEFAULT_OUTPUT_LIMIT;
+  return Math.min(
+    getTokenBudget(model),
+    Math.floor(outputLimit * OUTPUT_SHARE)
+  );
+}
+
+// The longest matching prefix wins
+function findByPrefix(
+  values: Record<string, number>,
+  model: string
+): number | undefined {
+  const prefix = Object.keys(values)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? values[prefix] : undefined;
+}
+
+// Splits markdown into chunks of at most maxTokens, preferring to cut at
+// headings, then paragraphs, then sentences.
+export function chunkMarkdown(content: string, maxTokens: number): string[] {
+  if (estimateTokens(content) <= maxTokens) {
+    return [content];
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of splitBlocks(content, maxChars)) {
+    if (current && current.length + block.length + 2 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// Paragraphs (including headings) no longer than maxChars
+function splitBlocks(content: string, maxChars: number): string[] {
+  return content
+    .split(/\n\s*\n|\n(?=#{1,6}\s)/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block) =>
+      block.length <= maxChars ? [block] : splitLongBlock(block, maxChars)
+    );
+}
+
+function splitLongBlock(block: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const sentence of block.split(/(?<=[.!?])\s+/)) {
+    // Sentences beyond the limit are cut hard
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
@@ -0,0 +1,38 @@
+import { getProvider } from "./llm";
+import type { ChatMessage, CompletionOptions, ResponseSchema } from "./llm";
+import type { UsageMeter } from "./usage";
+
+// A plain string is sent as single user message
+export type Prompt = string | ChatMessage[];
+
+export function getModel(): string {
+  return getProvider().model;
+}
+
+// Pass a meter to account the tokens to an action
+export async function getCompletion(
+  prompt: Prompt,
+  schema?: ResponseSchema,
+  options?: CompletionOptions,
+  usage?: UsageMeter
+): Promise<string | null> {
+  const {
+    content,
+    model,
+    usage: tokens,
+    truncated,
+  } = await getProvider().complete({
+    messages:
+      typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt,
+    schema,
+    options,
+  });
+  usage?.add(model, tokens);
+  // A cut off transcription or JSON object would pass as a complete one
+  if (truncated) {
+    throw new Error(
+      `The completion of ${model} was cut off at its output token limit. Raise max_tokens or lower llm.tokenBudgets.`
+    );
+  }
+  return content;
+}
@@ -0,0 +1,714 @@
+import configFile from "../config.json";
+import { setCompletionOption } from "./frontmatter";
+import { LABEL_MODES } from "./labels";
+import type { LabelMode } from "./labels";
+import type { CompletionOptions } from "./llm";
+import { LOG_LEVELS } from "./logger";
+import type { LoggingOptions, LogLevel } from "./logger";
+import { JOB_QUEUES } from "./queue/queue";
+import type { JobQueueName } from "./queue/queue";
+import { STATE_STORES } from "./store/store";
+import type { StateStoreName } from "./store/store";
+import type { TaxonomyOptions } from "./taxonomy";
+import { TRANSLATION_MODES } from "./translation";
+import type { TranslationMode, TranslationOptions } from "./translation";
+import type { ModelPrice, UsageOptions } from "./usage";
+
+// Settings of a `do:*` variant, keyed by the part after the colon
+export interface ActionConfig {
+  // Instruction used when the label has no description
+  prompt?: string;
+  // Model settings, a label's front matter takes precedence
+  options: CompletionOptions;
+}
+
+export interface Config {
+  // Prefix of the labels that trigger actions, e.g. "do" for `do:summary`
+  triggerLabel: string;
+  // Prefix of the labels that mark actions as done, e.g. "did"
+  doneLabel: string;
+  // Actions run for every new article on PAGE_CREATED
+  defaultActions: string[];
+  highlightTrigger: string;
+  // Instruction for labels without description and action prompt
+  defaultPrompt: string;
+  omnivore: {
+    endpoint: string;
+  };
+  llm: {
+    provider: string;
+    // The provider's default model if omitted
+    model?: string;
+    settings: Record<string, unknown>;
+    // Tokens of article content per request, keyed by model. Half of the
+    // model's context window if not listed.
+    tokenBudgets: Record<string, number>;
+  };
+  actions: Record<string, ActionConfig>;
+  // How generated tags are matched to the account's labels
+  taxonomy: TaxonomyOptions;
+  // Whether generated tags are added to the page's labels or replace them
+  labelMode: LabelMode;
+  // Token accounting and budget caps
+  usage: UsageOptions;
+  logging: LoggingOptions;
+  // Target language and mode of `do:translate`
+  translation: TranslationOptions;
+  // Seconds in which a repeated delivery of the same action for the same
+  // article content is acknowledged without running it again, 0 turns
+  // deduplication off
+  idempotencyWindow: number;
+  state: {
+    store: StateStoreName;
+    // State file of the Node scripts with the "file" store
+    file: string;
+  };
+  jobs: {
+    queue: JobQueueName;
+    // Queue file of the Node scripts with the "file" queue
+    file: string;
+    maxAttempts: number;
+    // Seconds before a failed job is retried, doubled for each attempt
+    retryDelay: number;
+    // Seconds between the worker's checks for due jobs
+    pollInterval: number;
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems
+        .map((problem) => `- ${problem}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+const DEFAULT_CONFIG: Config = {
+  triggerLabel: "do",
+  doneLabel: "did",
+  defaultActions: ["summary"],
+  highlightTrigger: "@ai",
+  defaultPrompt: "Return a tweet-length TL;DR of the following article.",
+  omnivore: {
+    endpoint: "https://api-prod.omnivore.app/api/graphql",
+  },
+  llm: {
+    provider: "openai",
+    settings: {},
+    tokenBudgets: {},
+  },
+  actions: {},
+  taxonomy: {
+    similarity: 0.8,
+    maxNewLabels: 3,
+    allow: [],
+    deny: [],
+  },
+  labelMode: "add",
+  usage: {
+    noteFooter: false,
+    dailyBudget: 0,
+    monthlyBudget: 0,
+    prices: {
+      "gpt-4o": { prompt: 2.5, completion: 10 },
+      "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+      "claude-3-5-sonnet": { prompt: 3, completion: 15 },
+      "claude-3-5-haiku": { prompt: 0.8, completion: 4 },
+    },
+  },
+  logging: {
+    level: "info",
+    maxLength: 500,
+    redactNotes: false,
+    redactKeys: true,
+  },
+  translation: {
+    targetLanguage: "English",
+    mode: "summary",
+  },
+  idempotencyWindow: 600,
+  state: {
+    store: "memory",
+    file: ".data/state.json",
+  },
+  jobs: {
+    queue: "inline",
+    file: ".data/jobs.json",
+    maxAttempts: 3,
+    retryDelay: 30,
+    pollInterval: 5,
+  },
+};
+
+let currentConfig: Config | undefined;
+
+// config.json with the environment variables applied on top, validated on
+// first use
+export function getConfig(): Config {
+  return (currentConfig ??= loadConfig(configFile, process.env));
+}
+
+// Overrides the configuration, e.g. in tests. Pass undefined to load it
+// again.
+export function setConfig(config: Config | undefined): void {
+  currentConfig = config;
+}
+
+export function getActionConfig(action: string | undefined): ActionConfig {
+  return (action && getConfig().actions[action]) || { options: {} };
+}
+
+// Throws a ConfigError listing every problem, not just the first one
+export function loadConfig(
+  file: unknown,
+  env: Record<string, string | undefined>
+): Config {
+  const problems: string[] = [];
+  const raw = isObject(file) ? file : {};
+  if (!isObject(file)) {
+    problems.push(`config.json must contain a JSON object.`);
+  }
+
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG), "", problems);
+  const config: Config = {
+    triggerLabel: readString(raw, "triggerLabel", problems),
+    doneLabel: readString(raw, "doneLabel", problems),
+    defaultActions: readStringList(raw, "defaultActions", problems),
+    highlightTrigger: readString(raw, "highlightTrigger", problems),
+    defaultPrompt: readString(raw, "defaultPrompt", problems),
+    omnivore: readOmnivore(readSection(raw, "omnivore", problems), problems),
+    llm: readLLM(readSection(raw, "llm", problems), problems),
+    actions: readActions(readSection(raw, "actions", problems), problems),
+    taxonomy: readTaxonomy(readSection(raw, "taxonomy", problems), problems),
+    labelMode: readString(raw, "labelMode", problems) as LabelMode,
+    usage: readUsage(readSection(raw, "usage", problems), problems),
+    logging: readLogging(readSection(raw, "logging", problems), problems),
+    translation: readTranslation(
+      readSection(raw, "translation", problems),
+      problems
+    ),
+    idempotencyWindow: readNumber(raw, "idempotencyWindow", problems),
+    state: readState(readSection(raw, "state", problems), problems),
+    jobs: readJobs(readSection(raw, "jobs", problems), problems),
+  };
+
+  applyEnv(config, env, problems);
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+// The environment variables documented in the readme take precedence over
+// config.json
+function applyEnv(
+  config: Config,
+  env: Record<string, string | undefined>,
+  problems: string[]
+): void {
+  config.triggerLabel =
+    env["OMNIVORE_ANNOTATE_LABEL"] || config.triggerLabel;
+  config.doneLabel = env["OMNIVORE_DONE_LABEL"] || config.doneLabel;
+  config.highlightTrigger =
+    env["OMNIVORE_HIGHLIGHT_TRIGGER"] || config.highlightTrigger;
+  config.defaultPrompt = env["OPENAI_PROMPT"] || config.defaultPrompt;
+  config.omnivore.endpoint =
+    env["OMNIVORE_API_URL"] || config.omnivore.endpoint;
+
+  // An empty value turns the default actions off
+  const defaultActions = env["OMNIVORE_DEFAULT_ACTIONS"];
+  if (defaultActions !== undefined) {
+    config.defaultActions = defaultActions
+      .split(",")
+      .map((action) => action.trim())
+      .filter(Boolean);
+  }
+
+  config.labelMode = (env["OMNIVORE_LABEL_MODE"] ||
+    config.labelMode) as LabelMode;
+  if (!LABEL_MODES.includes(config.labelMode)) {
+    problems.push(
+      `labelMode must be one of ${LABEL_MODES.map((mode) => `"${mode}"`).join(
+        ", "
+      )}, got "${config.labelMode}".`
+    );
+  }
+
+  config.usage.dailyBudget =
+    readEnvNumber(env, "USAGE_DAILY_BUDGET", problems) ??
+    config.usage.dailyBudget;
+  config.usage.monthlyBudget =
+    readEnvNumber(env, "USAGE_MONTHLY_BUDGET", problems) ??
+    config.usage.monthlyBudget;
+
+  config.logging.level = (env["LOG_LEVEL"] ||
+    config.logging.level) as LogLevel;
+  if (!LOG_LEVELS.includes(config.logging.level)) {
+    problems.push(
+      `logging.level must be one of ${LOG_LEVELS.map(
+        (level) => `"${level}"`
+      ).join(", ")}, got "${config.logging.level}".`
+    );
+  }
+
+  config.translation.targetLanguage =
+    env["OMNIVORE_TRANSLATE_LANGUAGE"] || config.translation.targetLanguage;
+
+  config.llm.provider = env["LLM_PROVIDER"] || config.llm.provider;
+  const [modelVariable, settingsVariable] =
+    config.llm.provider === "anthropic"
+      ? ["ANTHROPIC_MODEL", "ANTHROPIC_SETTINGS"]
+      : ["OPENAI_MODEL", "OPENAI_SETTINGS"];
+  config.llm.model = env[modelVariable] || config.llm.model;
+
+  config.llm.settings =
+    readEnvObject(env, settingsVariable, problems) ?? config.llm.settings;
+  const tokenBudgets = readEnvObject(env, "OPENAI_TOKEN_BUDGETS", problems);
+  if (tokenBudgets) {
+    config.llm.tokenBudgets = readTokenBudgets(
+      tokenBudgets,
+      "OPENAI_TOKEN_BUDGETS",
+      problems
+    );
+  }
+
+  config.idempotencyWindow =
+    readEnvNumber(env, "IDEMPOTENCY_WINDOW", problems) ??
+    config.idempotencyWindow;
+  config.state.store = (env["STATE_STORE"] ||
+    config.state.store) as StateStoreName;
+  config.state.file = env["STATE_FILE"] || config.state.file;
+  config.jobs.queue = (env["JOB_QUEUE"] || config.jobs.queue) as JobQueueName;
+  config.jobs.file = env["JOB_QUEUE_FILE"] || config.jobs.file;
+  config.jobs.maxAttempts =
+    readEnvNumber(env, "JOB_MAX_ATTEMPTS", problems) ??
+    config.jobs.maxAttempts;
+  config.jobs.retryDelay =
+    readEnvNumber(env, "JOB_RETRY_DELAY", problems) ?? config.jobs.retryDelay;
+  config.jobs.pollInterval =
+    readEnvNumber(env, "JOB_POLL_INTERVAL", problems) ??
+    config.jobs.pollInterval;
+
+  for (const [setting, value, allowed] of [
+    ["state.store", config.state.store, STATE_STORES],
+    ["jobs.queue", config.jobs.queue, JOB_QUEUES],
+  ] as const) {
+    if (!(allowed as readonly string[]).includes(value)) {
+      problems.push(
+        `${setting} must be one of ${allowed
+          .map((name) => `"${name}"`)
+          .join(", ")}, got "${value}".`
+      );
+    }
+  }
+  const { maxAttempts } = config.jobs;
+  if (maxAttempts < 1 || !Number.isInteger(maxAttempts)) {
+    problems.push(`jobs.maxAttempts must be a whole number from 1.`);
+  }
+  if (config.jobs.pollInterval === 0) {
+    problems.push(`jobs.pollInterval must be more than 0.`);
+  }
+
+  if (!config.triggerLabel.trim()) {
+    problems.push(`triggerLabel must not be empty.`);
+  }
+  if (!config.doneLabel.trim()) {
+    problems.push(`doneLabel must not be empty.`);
+  }
+  if (config.triggerLabel === config.doneLabel) {
+    problems.push(`triggerLabel and doneLabel must differ.`);
+  }
+}
+
+function readLLM(
+  raw: Record<string, unknown>,
+  problems: string[]
+): Config["llm"] {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.llm), "llm.", problems);
+  const model = raw["model"];
+  if (model !== undefined && typeof model !== "string") {
+    problems.push(`llm.model must be a string.`);
+  }
+  const settings = raw["settings"] ?? DEFAULT_CONFIG.llm.settings;
+  if (!isObject(settings)) {
+    problems.push(`llm.settings must be an object.`);
+  }
+  const tokenBudgets = raw["tokenBudgets"] ?? {};
+  if (!isObject(tokenBudgets)) {
+    problems.push(`llm.tokenBudgets must be an object.`);
+  }
+
+  return {
+    provider: readString(raw, "provider", problems, "llm."),
+    model: typeof model === "string" ? model : undefined,
+    settings: isObject(settings) ? settings : {},
+    tokenBudgets: isObject(tokenBudgets)
+      ? readTokenBudgets(tokenBudgets, "llm.tokenBudgets", problems)
+      : {},
+  };
+}
+
+function readTokenBudgets(
+  raw: Record<string, unknown>,
+  path: string,
+  problems: string[]
+): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const [model, budget] of Object.entries(raw)) {
+    if (typeof budget === "number" && Number.isInteger(budget) && budget > 0) {
+      budgets[model] = budget;
+    } else {
+      problems.push(`${path}.${model} must be a whole number from 1.`);
+    }
+  }
+  return budgets;
+}
+
+function readOmnivore(
+  raw: Record<string, unknown>,
+  problems: string[]
+): Config["omnivore"] {
+  checkKeys(raw, ["endpoint"], "omnivore.", problems);
+  return { endpoint: readString(raw, "endpoint", problems, "omnivore.") };
+}
+
+function readTaxonomy(
+  raw: Record<string, unknown>,
+  problems: string[]
+): TaxonomyOptions {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.taxonomy), "taxonomy.", problems);
+  const { similarity, maxNewLabels } = { ...DEFAULT_CONFIG.taxonomy, ...raw };
+  if (typeof similarity !== "number" || similarity < 0 || similarity > 1) {
+    problems.push(`taxonomy.similarity must be a number between 0 and 1.`);
+  }
+  if (
+    typeof maxNewLabels !== "number" ||
+    !Number.isInteger(maxNewLabels) ||
+    maxNewLabels < 0
+  ) {
+    problems.push(`taxonomy.maxNewLabels must be a whole number from 0.`);
+  }
+
+  return {
+    similarity: typeof similarity === "number" ? similarity : 0,
+    maxNewLabels: typeof maxNewLabels === "number" ? maxNewLabels : 0,
+    allow: readStringList(raw, "allow", problems, "taxonomy."),
+    deny: readStringList(raw, "deny", problems, "taxonomy."),
+  };
+}
+
+function readUsage(
+  raw: Record<string, unknown>,
+  problems: string[]
+): UsageOptions {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.usage), "usage.", problems);
+  const { noteFooter, dailyBudget, monthlyBudget } = {
+    ...DEFAULT_CONFIG.usage,
+    ...raw,
+  };
+  if (typeof noteFooter !== "boolean") {
+    problems.push(`usage.noteFooter must be true or false.`);
+  }
+  for (const [key, budget] of Object.entries({ dailyBudget, monthlyBudget })) {
+    if (typeof budget !== "number" || budget < 0) {
+      problems.push(`usage.${key} must be a number from 0.`);
+    }
+  }
+
+  // Prices in config.json are added to the defaults, so only new models
+  // need to be listed
+  const prices: Record<string, ModelPrice> = {
+    ...DEFAULT_CONFIG.usage.prices,
+  };
+  const rawPrices = raw["prices"] ?? {};
+  if (!isObject(rawPrices)) {
+    problems.push(`usage.prices must be an object.`);
+  } else {
+    for (const [model, price] of Object.entries(rawPrices)) {
+      if (
+        isObject(price) &&
+        typeof price["prompt"] === "number" &&
+        typeof price["completion"] === "number"
+      ) {
+        prices[model] = {
+          prompt: price["prompt"],
+          completion: price["completion"],
+        };
+      } else {
+        problems.push(
+          `usage.prices.${model} must have a "prompt" and a "completion" price in USD per million tokens.`
+        );
+      }
+    }
+  }
+
+  return {
+    noteFooter: noteFooter === true,
+    dailyBudget: typeof dailyBudget === "number" ? dailyBudget : 0,
+    monthlyBudget: typeof monthlyBudget === "number" ? monthlyBudget : 0,
+    prices,
+  };
+}
+
+function readLogging(
+  raw: Record<string, unknown>,
+  problems: string[]
+): LoggingOptions {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.logging), "logging.", problems);
+  const { maxLength, redactNotes, redactKeys } = {
+    ...DEFAULT_CONFIG.logging,
+    ...raw,
+  };
+  if (
+    typeof maxLength !== "number" ||
+    !Number.isInteger(maxLength) ||
+    maxLength < 1
+  ) {
+    problems.push(`logging.maxLength must be a whole number from 1.`);
+  }
+  for (const [key, value] of Object.entries({ redactNotes, redactKeys })) {
+    if (typeof value !== "boolean") {
+      problems.push(`logging.${key} must be true or false.`);
+    }
+  }
+
+  return {
+    level: readString(raw, "level", problems, "logging.") as LogLevel,
+    maxLength: typeof maxLength === "number" ? maxLength : 500,
+    redactNotes: redactNotes === true,
+    redactKeys: redactKeys !== false,
+  };
+}
+
+function readTranslation(
+  raw: Record<string, unknown>,
+  problems: string[]
+): TranslationOptions {
+  checkKeys(
+    raw,
+    Object.keys(DEFAULT_CONFIG.translation),
+    "translation.",
+    problems
+  );
+  const targetLanguage = readString(
+    raw,
+    "targetLanguage",
+    problems,
+    "translation."
+  );
+  if (typeof raw["targetLanguage"] === "string" && !targetLanguage.trim()) {
+    problems.push(`translation.targetLanguage must not be empty.`);
+  }
+  const mode = readString(
+    raw,
+    "mode",
+    problems,
+    "translation."
+  ) as TranslationMode;
+  if (!TRANSLATION_MODES.includes(mode)) {
+    problems.push(
+      `translation.mode must be one of ${TRANSLATION_MODES.map(
+        (mode) => `"${mode}"`
+      ).join(", ")}, got "${mode}".`
+    );
+  }
+  return { targetLanguage, mode };
+}
+
+function readState(
+  raw: Record<string, unknown>,
+  problems: string[]
+): Config["state"] {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.state), "state.", problems);
+  return {
+    store: readString(raw, "store", problems, "state.") as StateStoreName,
+    file: readString(raw, "file", problems, "state."),
+  };
+}
+
+function readJobs(
+  raw: Record<string, unknown>,
+  problems: string[]
+): Config["jobs"] {
+  checkKeys(raw, Object.keys(DEFAULT_CONFIG.jobs), "jobs.", problems);
+  return {
+    queue: readString(raw, "queue", problems, "jobs.") as JobQueueName,
+    file: readString(raw, "file", problems, "jobs."),
+    maxAttempts: readNumber(raw, "maxAttempts", problems, "jobs."),
+    retryDelay: readNumber(raw, "retryDelay", problems, "jobs."),
+    pollInterval: readNumber(raw, "pollInterval", problems, "jobs."),
+  };
+}
+
+function readActions(
+  raw: Record<string, unknown>,
+  problems: string[]
+): Record<string, ActionConfig> {
+  const actions: Record<string, ActionConfig> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    const path = `actions.${name}`;
+    if (!isObject(value)) {
+      problems.push(`${path} must be an object.`);
+      continue;
+    }
+
+    const action: ActionConfig = { options: {} };
+    for (const [key, setting] of Object.entries(value)) {
+      if (key === "prompt") {
+        if (typeof setting === "string") {
+          action.prompt = setting;
+        } else {
+          problems.push(`${path}.prompt must be a string.`);
+        }
+        continue;
+      }
+      const problem = setCompletionOption(
+        action.options,
+        key,
+        typeof setting === "string" ? setting : JSON.stringify(setting)
+      );
+      if (problem) {
+        problems.push(`${path}: ${problem}`);
+      }
+    }
+    actions[name] = action;
+  }
+
+  return actions;
+}
+
+// Missing keys fall back to the defaults, so config.json only needs what
+// differs from them
+function readString(
+  raw: Record<string, unknown>,
+  key: string,
+  problems: string[],
+  prefix = ""
+): string {
+  const value = raw[key] ?? getDefault(`${prefix}${key}`);
+  if (typeof value !== "string") {
+    problems.push(`${prefix}${key} must be a string.`);
+    return "";
+  }
+  return value;
+}
+
+function readNumber(
+  raw: Record<string, unknown>,
+  key: string,
+  problems: string[],
+  prefix = ""
+): number {
+  const value = raw[key] ?? getDefault(`${prefix}${key}`);
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    problems.push(`${prefix}${key} must be a number from 0.`);
+    return 0;
+  }
+  return value;
+}
+
+function readStringList(
+  raw: Record<string, unknown>,
+  key: string,
+  problems: string[],
+  prefix = ""
+): string[] {
+  const value = raw[key] ?? getDefault(`${prefix}${key}`);
+  if (
+    !Array.isArray(value) ||
+    !value.every((item): item is string => typeof item === "string")
+  ) {
+    problems.push(`${prefix}${key} must be a list of strings.`);
+    return [];
+  }
+  return value;
+}
+
+function readSection(
+  raw: Record<string, unknown>,
+  key: string,
+  problems: string[]
+): Record<string, unknown> {
+  const value = raw[key] ?? {};
+  if (!isObject(value)) {
+    problems.push(`${key} must be an object.`);
+    return {};
+  }
+  return value;
+}
+
+// The variable's number from 0, undefined if it isn't set
+function readEnvNumber(
+  env: Record<string, string | undefined>,
+  variable: string,
+  problems: string[]
+): number | undefined {
+  const value = env[variable];
+  if (!value) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    problems.push(`${variable} must be a number from 0, got "${value}".`);
+    return undefined;
+  }
+  return number;
+}
+
+// The variable's JSON object, undefined if it isn't set
+function readEnvObject(
+  env: Record<string, string | undefined>,
+  variable: string,
+  problems: string[]
+): Record<string, unknown> | undefined {
+  const value = env[variable];
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!isObject(parsed)) {
+      throw new Error("expected a JSON object");
+    }
+    return parsed;
+  } catch (error) {
+    problems.push(`${variable} is not valid JSON: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+// Unknown keys are most likely typos, which would silently be ignored
+function checkKeys(
+  raw: Record<string, unknown>,
+  allowed: string[],
+  prefix: string,
+  problems: string[]
+): void {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key) && key !== "$schema") {
+      problems.push(
+        `Unknown setting "${prefix}${key}". Use one of: ${allowed
+          .map((name) => `${prefix}${name}`)
+          .join(", ")}.`
+      );
+    }
+  }
+}
+
+function getDefault(path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isObject(value) ? value[key] : undefined),
+      DEFAULT_CONFIG
+    );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,31 @@
+import type { webcrypto } from "crypto";
+
+// Web Crypto is a global in the edge runtime and Node, only the typings of
+// the Node version in use lack it
+declare const crypto: webcrypto.Crypto;
+
+const encoder = new TextEncoder();
+
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(message)));
+}
+
+export async function hmacSha256Hex(
+  secret: string,
+  message: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
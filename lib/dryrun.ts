@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from "uuid";
+import { removeNoteSection } from "./notebook";
+import type { OmnivoreClient } from "./omnivore";
+import type { Highlight, Label } from "./types";
+
+// What a run would have written to Omnivore
+export interface DryRunPlan {
+  // Labels that would be created in the account
+  createdLabels: string[];
+  // The article's labels after the run, undefined if they wouldn't change
+  labels?: string[];
+  // The article note after the run, undefined if it wouldn't change
+  note?: string;
+  highlights: Array<{ quote: string | null; annotation: string | null }>;
+  // Annotations that would be set on existing highlights
+  highlightUpdates: Array<{ highlightId: string; annotation: string }>;
+}
+
+// Heading of the note section previews are written to
+export const PREVIEW_SECTION = "Preview (draft)";
+
+// `do:summary:preview` runs `do:summary` as dry run and writes the plan
+// into the preview section
+const PREVIEW_SUFFIX = ":preview";
+
+export function isPreviewLabel(label: string): boolean {
+  return label.endsWith(PREVIEW_SUFFIX);
+}
+
+export function stripPreview(label: string): string {
+  return isPreviewLabel(label)
+    ? label.slice(0, -PREVIEW_SUFFIX.length)
+    : label;
+}
+
+export function toPreviewLabel(label: string): string {
+  return `${label}${PREVIEW_SUFFIX}`;
+}
+
+export interface DryRunClient extends OmnivoreClient {
+  plan: DryRunPlan;
+}
+
+// Reads from Omnivore as usual but only records the mutations, answering
+// them as Omnivore would. Wrap the plain client, so nothing else sees the
+// simulated writes either.
+export function createDryRunClient(omnivore: OmnivoreClient): DryRunClient {
+  const plan: DryRunPlan = {
+    createdLabels: [],
+    highlights: [],
+    highlightUpdates: [],
+  };
+  const knownLabels = new Map<string, Label>();
+  const noteIds = new Set<string>();
+
+  const remember = (labels: Label[]) => {
+    for (const label of labels) {
+      if (label.id) {
+        knownLabels.set(label.id, label);
+      }
+    }
+    return labels;
+  };
+
+  return {
+    plan,
+
+    async getArticle(articleId) {
+      const article = await omnivore.getArticle(articleId);
+      remember(article.labels);
+      if (article.existingNote) {
+        noteIds.add(article.existingNote.id);
+      }
+      return article;
+    },
+
+    search: (query, first, after) => omnivore.search(query, first, after),
+
+    getLabels: async () => remember(await omnivore.getLabels()),
+
+    async createLabel(label) {
+      const created = { ...label, id: `dry-run-${uuidv4()}` };
+      plan.createdLabels.push(label.name);
+      remember([created]);
+      return created;
+    },
+
+    async deleteLabel(labelId) {
+      const label = knownLabels.get(labelId);
+      if (!label) {
+        throw new Error(`Label ${labelId} not found.`);
+      }
+      return label;
+    },
+
+    async setLabels(_pageId, labelIds) {
+      const labels = labelIds.map(
+        (id) => knownLabels.get(id) ?? { id, name: id, description: "" }
+      );
+      plan.labels = labels.map(({ name }) => name);
+      return labels;
+    },
+
+    async createHighlight(input) {
+      const highlight = simulateHighlight(uuidv4(), input);
+      if (input.type === "NOTE") {
+        noteIds.add(highlight.id);
+        plan.note = input.annotation ?? "";
+      } else {
+        plan.highlights.push({
+          quote: highlight.quote,
+          annotation: highlight.annotation,
+        });
+      }
+      return highlight;
+    },
+
+    async updateHighlight({ highlightId, annotation }) {
+      if (noteIds.has(highlightId)) {
+        plan.note = annotation;
+      } else {
+        plan.highlightUpdates.push({ highlightId, annotation });
+      }
+      return simulateHighlight(highlightId, {
+        type: noteIds.has(highlightId) ? "NOTE" : "HIGHLIGHT",
+        annotation,
+      });
+    },
+  };
+}
+
+function simulateHighlight(
+  id: string,
+  input: Partial<Highlight> & { type: string }
+): Highlight {
+  return {
+    shortId: id.substring(0, 8),
+    quote: null,
+    prefix: null,
+    suffix: null,
+    patch: null,
+    color: null,
+    annotation: null,
+    createdByMe: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: null,
+    sharedAt: null,
+    highlightPositionPercent: null,
+    highlightPositionAnchorIndex: null,
+    labels: null,
+    ...input,
+    id,
+  };
+}
+
+// The plan as markdown for the preview section of the article note
+export function formatDraftNote(labels: string[], plan: DryRunPlan): string {
+  const lines = [
+    `*Draft of ${labels
+      .map((label) => `\`${label}\``)
+      .join(", ")}, nothing was applied. Add the labels without ":preview" to apply it.*`,
+  ];
+
+  if (plan.labels) {
+    const created = new Set(plan.createdLabels);
+    lines.push(
+      "",
+      `**Labels:** ${plan.labels
+        .map((name) => (created.has(name) ? `${name} (new)` : name))
+        .join(", ")}`
+    );
+  }
+  // The previous preview would otherwise be quoted in the next one
+  const note = plan.note && removeNoteSection(plan.note, PREVIEW_SECTION);
+  if (note) {
+    lines.push("", "**Note:**", "", note.replace(/^/gm, "> "));
+  }
+  if (plan.highlights.length > 0) {
+    lines.push(
+      "",
+      "**Highlights:**",
+      "",
+      ...plan.highlights.map(
+        ({ quote, annotation }) =>
+          `- "${quote ?? ""}"${annotation ? ` – ${annotation}` : ""}`
+      )
+    );
+  }
+  for (const { annotation } of plan.highlightUpdates) {
+    lines.push("", "**Highlight note:**", "", annotation.replace(/^/gm, "> "));
+  }
+
+  return lines.join("\n");
+}
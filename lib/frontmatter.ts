@@ -0,0 +1,97 @@
+import type { CompletionOptions } from "./llm";
+
+// Label descriptions may start with a front-matter block that overrides the
+// model settings for the label's action:
+//
+//   ---
+//   model: gpt-4o-mini
+//   temperature: 0.2
+//   max_tokens: 300
+//   response_format: text
+//   ---
+//   Return a tweet-length TL;DR of the following article.
+
+const FRONT_MATTER = /^\s*---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export interface LabelDescription {
+  // The description without the front matter
+  instruction: string;
+  options: CompletionOptions;
+  // Problems with the front matter, the action isn't run if there are any
+  errors: string[];
+}
+
+export function parseLabelDescription(description: string): LabelDescription {
+  const match = description.match(FRONT_MATTER);
+  if (!match) {
+    return { instruction: description, options: {}, errors: [] };
+  }
+
+  const options: CompletionOptions = {};
+  const errors: string[] = [];
+  for (const [index, line] of match[1].split(/\r?\n/).entries()) {
+    if (!line.trim() || line.trim().startsWith("#")) {
+      continue;
+    }
+    const entry = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (!entry) {
+      errors.push(`Line ${index + 1} isn't a "key: value" pair: "${line}".`);
+      continue;
+    }
+    const error = setCompletionOption(options, entry[1], unquote(entry[2]));
+    if (error) {
+      errors.push(`Line ${index + 1}: ${error}`);
+    }
+  }
+
+  return {
+    instruction: description.slice(match[0].length).trim(),
+    options,
+    errors,
+  };
+}
+
+// Validates a front-matter setting and stores it in the options. Returns
+// the reason if the setting is invalid.
+export function setCompletionOption(
+  options: CompletionOptions,
+  key: string,
+  value: string
+): string | undefined {
+  switch (key) {
+    case "model":
+      if (!value) {
+        return `"model" must not be empty.`;
+      }
+      options.model = value;
+      return undefined;
+    case "temperature": {
+      const temperature = Number(value);
+      if (!value || !(temperature >= 0 && temperature <= 2)) {
+        return `"temperature" must be a number between 0 and 2, got "${value}".`;
+      }
+      options.temperature = temperature;
+      return undefined;
+    }
+    case "max_tokens": {
+      const maxTokens = Number(value);
+      if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+        return `"max_tokens" must be a positive whole number, got "${value}".`;
+      }
+      options.maxTokens = maxTokens;
+      return undefined;
+    }
+    case "response_format":
+      if (value !== "text" && value !== "json") {
+        return `"response_format" must be "text" or "json", got "${value}".`;
+      }
+      options.responseFormat = value;
+      return undefined;
+    default:
+      return `Unknown setting "${key}". Use model, temperature, max_tokens or response_format.`;
+  }
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, "$2");
+}
@@ -0,0 +1,52 @@
+import DiffMatchPatch from "diff-match-patch";
+
+// Omnivore stores highlights as a diff-match-patch patch that inserts these
+// markers around the highlighted text
+const HIGHLIGHT_START_MARKER =
+  '<span data-omnivore-highlight-start="true"></span>';
+const HIGHLIGHT_END_MARKER = '<span data-omnivore-highlight-end="true"></span>';
+
+// Length of the context stored before and after a highlight
+const CONTEXT_LENGTH = 100;
+
+export interface LocatedQuote {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  patch: string;
+  highlightPositionPercent: number;
+}
+
+// Finds the first verbatim occurrence of the quote in the content. Quotes
+// that were paraphrased or joined from several places aren't found.
+export function locateQuote(
+  content: string,
+  quote: string
+): LocatedQuote | undefined {
+  const text = quote.trim();
+  const start = text ? content.indexOf(text) : -1;
+  if (start === -1) {
+    return undefined;
+  }
+  const end = start + text.length;
+
+  const dmp = new DiffMatchPatch();
+  const patch = dmp.patch_toText(
+    dmp.patch_make(
+      content,
+      content.slice(0, start) +
+        HIGHLIGHT_START_MARKER +
+        text +
+        HIGHLIGHT_END_MARKER +
+        content.slice(end)
+    )
+  );
+
+  return {
+    quote: text,
+    prefix: content.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: content.slice(end, end + CONTEXT_LENGTH),
+    patch,
+    highlightPositionPercent: (start / content.length) * 100,
+  };
+}
@@ -0,0 +1,76 @@
+import { getConfig } from "./config";
+import { sha256Hex } from "./crypto";
+import type { OmnivoreClient } from "./omnivore";
+import type { KeyValueStore } from "./store";
+
+// Our own setLabels calls come back as LABEL_ADDED deliveries shortly after
+const SELF_TRIGGER_WINDOW = 120;
+
+export async function getIdempotencyKey(
+  pageId: string,
+  action: string,
+  content: string
+): Promise<string> {
+  return `idempotency:${pageId}:${action}:${await sha256Hex(content)}`;
+}
+
+// Claims the key for this request. Returns false if another delivery holds
+// it already, which means the action ran or runs right now.
+export async function claimIdempotencyKey(
+  store: KeyValueStore,
+  key: string,
+  requestId: string
+): Promise<boolean> {
+  const window = getConfig().idempotencyWindow;
+  if (window === 0) {
+    return true;
+  }
+  return store.add(key, requestId, window);
+}
+
+// Lets a later delivery retry an action that failed
+export async function releaseIdempotencyKey(
+  store: KeyValueStore,
+  key: string
+): Promise<void> {
+  await store.delete(key);
+}
+
+// Remembers the labels every setLabels call leaves on a page, so the
+// webhook it triggers can be recognized
+export function trackSelfTriggers(
+  omnivore: OmnivoreClient,
+  store: KeyValueStore
+): OmnivoreClient {
+  return {
+    ...omnivore,
+    async setLabels(pageId, labelIds) {
+      const labels = await omnivore.setLabels(pageId, labelIds);
+      await store.set(
+        selfTriggerKey(pageId),
+        JSON.stringify(labels.map(({ name }) => name)),
+        SELF_TRIGGER_WINDOW
+      );
+      return labels;
+    },
+  };
+}
+
+// A LABEL_ADDED delivery is our own doing if all its labels are ones we
+// just set on the page
+export async function isSelfTriggered(
+  store: KeyValueStore,
+  pageId: string,
+  labelNames: string[]
+): Promise<boolean> {
+  const value = await store.get(selfTriggerKey(pageId));
+  if (!value || labelNames.length === 0) {
+    return false;
+  }
+  const ownLabels = new Set(JSON.parse(value) as string[]);
+  return labelNames.every((name) => ownLabels.has(name));
+}
+
+function selfTriggerKey(pageId: string): string {
+  return `self-labels:${pageId}`;
+}
@@ -0,0 +1,70 @@
+import type { Label } from "./types";
+
+// How generated labels are combined with the ones already on a page
+export type LabelMode = "add" | "replace";
+
+export const LABEL_MODES: LabelMode[] = ["add", "replace"];
+
+export interface LabelChange {
+  // Labels to put on the page
+  add: Partial<Label>[];
+  // Names of labels to take off the page
+  remove: string[];
+}
+
+export interface LabelDiff {
+  added: string[];
+  removed: string[];
+}
+
+// The page's labels after the change. "add" keeps all current labels,
+// "replace" only those keep() accepts, like the trigger labels of actions
+// still to run.
+export function mergeLabels(
+  current: Label[],
+  { add, remove }: LabelChange,
+  mode: LabelMode = "add",
+  keep: (name: string) => boolean = () => false
+): Partial<Label>[] {
+  const removed = new Set(remove.map((name) => name.toLowerCase()));
+  const labels = new Map<string, Partial<Label>>();
+
+  for (const label of current) {
+    const key = label.name.toLowerCase();
+    if (removed.has(key) || (mode === "replace" && !keep(label.name))) {
+      continue;
+    }
+    labels.set(key, label);
+  }
+  for (const label of add) {
+    const key = label.name?.toLowerCase();
+    if (key && !labels.has(key)) {
+      labels.set(key, label);
+    }
+  }
+
+  return [...labels.values()];
+}
+
+export function diffLabels(
+  before: Partial<Label>[],
+  after: Partial<Label>[]
+): LabelDiff {
+  const names = (labels: Partial<Label>[]) =>
+    new Map(
+      labels
+        .filter((label) => label.name)
+        .map(({ name }) => [name!.toLowerCase(), name!])
+    );
+  const beforeNames = names(before);
+  const afterNames = names(after);
+
+  return {
+    added: [...afterNames]
+      .filter(([key]) => !beforeNames.has(key))
+      .map(([, name]) => name),
+    removed: [...beforeNames]
+      .filter(([key]) => !afterNames.has(key))
+      .map(([, name]) => name),
+  };
+}
@@ -0,0 +1,105 @@
+import type { CompletionRequest, LLMProvider } from "./provider";
+
+const ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  // Additional request parameters like temperature, see ANTHROPIC_SETTINGS
+  settings?: Record<string, unknown>;
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: Array<
+    | { type: "text"; text: string }
+    | { type: "tool_use"; name: string; input: unknown }
+  >;
+  stop_reason?: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+// Talks to the Messages API directly. Structured output is requested by
+// forcing a tool call whose input schema is the response schema.
+export function createAnthropicProvider({
+  apiKey,
+  model,
+  settings = {},
+}: AnthropicProviderOptions): LLMProvider {
+  return {
+    name: "anthropic",
+    model,
+    async complete({ messages, schema, options = {} }: CompletionRequest) {
+      const system = [
+        ...messages
+          .filter(({ role }) => role === "system")
+          .map(({ content }) => content),
+        // The Messages API has no JSON mode
+        ...(options.responseFormat === "json" && !schema
+          ? ["Respond with a single JSON object and nothing else."]
+          : []),
+      ].join("\n\n");
+
+      const response = await fetch(ANTHROPIC_ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          ...settings,
+          ...(options.model !== undefined && { model: options.model }),
+          ...(options.temperature !== undefined && {
+            temperature: options.temperature,
+          }),
+          ...(options.maxTokens !== undefined && {
+            max_tokens: options.maxTokens,
+          }),
+          ...(system && { system }),
+          messages: messages.filter(({ role }) => role !== "system"),
+          ...(schema && {
+            tools: [
+              {
+                name: schema.name,
+                description: "Respond with the result.",
+                input_schema: schema.schema,
+              },
+            ],
+            tool_choice: { type: "tool", name: schema.name },
+          }),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Anthropic request failed with HTTP ${
+            response.status
+          }: ${await response.text()}`
+        );
+      }
+
+      const result = (await response.json()) as AnthropicResponse;
+      const toolUse = result.content.find(({ type }) => type === "tool_use");
+      const text = result.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+
+      return {
+        content:
+          toolUse && "input" in toolUse
+            ? JSON.stringify(toolUse.input)
+            : text || null,
+        model: result.model,
+        usage: result.usage && {
+          promptTokens: result.usage.input_tokens,
+          completionTokens: result.usage.output_tokens,
+        },
+        truncated: result.stop_reason === "max_tokens",
+      };
+    },
+  };
+}
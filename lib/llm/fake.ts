@@ -0,0 +1,78 @@
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from "./provider";
+
+export interface FakeProvider extends LLMProvider {
+  // Every request received, for assertions in tests
+  requests: CompletionRequest[];
+}
+
+// Answers without any network access. Text requests get a fixed reply that
+// quotes the start of the prompt, schema requests the smallest object that
+// satisfies the schema. Pass `respond` to script the answers instead.
+export function createFakeProvider(
+  respond?: (request: CompletionRequest) => string | null
+): FakeProvider {
+  const requests: CompletionRequest[] = [];
+
+  return {
+    name: "fake",
+    model: "fake",
+    requests,
+    async complete(request): Promise<CompletionResult> {
+      requests.push(request);
+
+      const prompt = request.messages.map(({ content }) => content).join("\n");
+      const content = respond
+        ? respond(request)
+        : request.schema
+        ? JSON.stringify(sampleFromSchema(request.schema.schema, "fake"))
+        : `Fake completion for: ${prompt.slice(0, 60)}`;
+
+      return {
+        content,
+        model: request.options?.model ?? "fake",
+        usage: {
+          promptTokens: Math.ceil(prompt.length / 4),
+          completionTokens: Math.ceil((content ?? "").length / 4),
+        },
+      };
+    },
+  };
+}
+
+function sampleFromSchema(
+  schema: Record<string, unknown>,
+  key: string
+): unknown {
+  switch (schema["type"]) {
+    case "object": {
+      const properties = (schema["properties"] ?? {}) as Record<
+        string,
+        Record<string, unknown>
+      >;
+      return Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, name),
+        ])
+      );
+    }
+    case "array":
+      return [
+        sampleFromSchema(
+          (schema["items"] ?? {}) as Record<string, unknown>,
+          key
+        ),
+      ];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return `fake ${key}`;
+  }
+}
@@ -0,0 +1,85 @@
+import { createAnthropicProvider } from "./anthropic";
+import { createFakeProvider } from "./fake";
+import {
+  createAzureOpenAIClient,
+  createLocalOpenAIClient,
+  createOpenAIProvider,
+} from "./openai";
+import { getConfig } from "../config";
+import type { LLMProvider } from "./provider";
+
+export type {
+  ChatMessage,
+  CompletionOptions,
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+  LLMProvider,
+  ResponseSchema,
+} from "./provider";
+export { createAnthropicProvider } from "./anthropic";
+export { createFakeProvider } from "./fake";
+export type { FakeProvider } from "./fake";
+export { createOpenAIProvider } from "./openai";
+
+export const LLM_PROVIDERS = [
+  "openai",
+  "azure",
+  "local",
+  "anthropic",
+  "fake",
+] as const;
+
+let currentProvider: LLMProvider | undefined;
+
+// The provider set with setProvider, or the one configured by LLM_PROVIDER
+// or the llm section of config.json. Created once, with its client.
+export function getProvider(): LLMProvider {
+  return (currentProvider ??= createProviderFromConfig());
+}
+
+// Overrides the configured provider, e.g. with a fake one in tests. Pass
+// undefined to go back to the configuration.
+export function setProvider(provider: LLMProvider | undefined): void {
+  currentProvider = provider;
+}
+
+function createProviderFromConfig(): LLMProvider {
+  const { provider: name, model, settings } = getConfig().llm;
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        model: model || "gpt-4o-2024-08-06",
+        settings,
+      });
+    case "azure":
+      return createOpenAIProvider({
+        name,
+        model: process.env["AZURE_OPENAI_DEPLOYMENT"] || model || "gpt-4o",
+        settings,
+        client: createAzureOpenAIClient(),
+      });
+    case "local":
+      return createOpenAIProvider({
+        name,
+        model: model || "llama3.1",
+        settings,
+        client: createLocalOpenAIClient(),
+      });
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: process.env["ANTHROPIC_API_KEY"] ?? "",
+        model: model || "claude-3-5-sonnet-latest",
+        settings,
+      });
+    case "fake":
+      return createFakeProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Use one of: ${LLM_PROVIDERS.join(
+          ", "
+        )}.`
+      );
+  }
+}
@@ -0,0 +1,82 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { CompletionRequest, LLMProvider } from "./provider";
+
+export interface OpenAIProviderOptions {
+  name?: string;
+  model: string;
+  // Additional request parameters, see OPENAI_SETTINGS
+  settings?: Record<string, unknown>;
+  // Client for Azure or OpenAI-compatible servers, OpenAI itself by default
+  client?: OpenAI;
+}
+
+// Also used for Azure OpenAI and local OpenAI-compatible servers like Ollama
+// or llama.cpp, which only differ in the client
+export function createOpenAIProvider({
+  name = "openai",
+  model,
+  settings = {},
+  client = new OpenAI(),
+}: OpenAIProviderOptions): LLMProvider {
+  return {
+    name,
+    model,
+    async complete({ messages, schema, options = {} }: CompletionRequest) {
+      // The settings apply to every request, the options of this one, like
+      // a label's model, take precedence
+      const completionResponse = await client.chat.completions.create({
+        model,
+        ...settings,
+        ...(options.model !== undefined && { model: options.model }),
+        ...(options.temperature !== undefined && {
+          temperature: options.temperature,
+        }),
+        ...(options.maxTokens !== undefined && {
+          max_tokens: options.maxTokens,
+        }),
+        messages,
+        ...(options.responseFormat === "json" && {
+          response_format: { type: "json_object" as const },
+        }),
+        ...(schema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: schema.name,
+              strict: true,
+              schema: schema.schema,
+            },
+          },
+        }),
+        stream: false,
+      });
+
+      const [choice] = completionResponse.choices;
+      return {
+        content: choice?.message.content ?? null,
+        model: completionResponse.model,
+        usage: completionResponse.usage && {
+          promptTokens: completionResponse.usage.prompt_tokens,
+          completionTokens: completionResponse.usage.completion_tokens,
+        },
+        truncated: choice?.finish_reason === "length",
+      };
+    },
+  };
+}
+
+export function createAzureOpenAIClient(): OpenAI {
+  // Reads AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT and OPENAI_API_VERSION
+  return new AzureOpenAI({
+    deployment: process.env["AZURE_OPENAI_DEPLOYMENT"],
+    apiVersion: process.env["OPENAI_API_VERSION"] || "2024-08-01-preview",
+  });
+}
+
+export function createLocalOpenAIClient(): OpenAI {
+  return new OpenAI({
+    baseURL: process.env["LLM_BASE_URL"] || "http://localhost:11434/v1",
+    // Local servers don't check the key, but the client requires one
+    apiKey: process.env["LLM_API_KEY"] || "local",
+  });
+}
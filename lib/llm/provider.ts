@@ -0,0 +1,45 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// JSON schema the completion has to follow
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// Per-request overrides of the provider's model and settings
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // "json" asks for any JSON object, a schema takes precedence
+  responseFormat?: "text" | "json";
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  schema?: ResponseSchema;
+  options?: CompletionOptions;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  // JSON text if a schema was requested
+  content: string | null;
+  model: string;
+  usage?: CompletionUsage;
+  // The completion stopped at max_tokens or the model's output limit
+  truncated?: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
@@ -0,0 +1,179 @@
+import { getConfig } from "./config";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+export interface LoggingOptions {
+  // Entries below this level are dropped
+  level: LogLevel;
+  // Longer strings, like article content and prompts, are cut off
+  maxLength: number;
+  // Replaces note and highlight annotations, and the prompts that include
+  // them, with their length
+  redactNotes: boolean;
+  // Replaces API keys and secrets, by field name and by value
+  redactKeys: boolean;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds the fields to every entry, sharing the timings
+  child(fields: LogFields): Logger;
+  // Runs a stage, e.g. "model", and logs how long it took
+  time<Result>(stage: string, run: () => Promise<Result>): Promise<Result>;
+  // Milliseconds spent per stage so far, summed over repeated stages
+  timings(): Record<string, number>;
+}
+
+// Used while the configuration can't be loaded, which is also logged
+const FALLBACK_OPTIONS: LoggingOptions = {
+  level: "info",
+  maxLength: 500,
+  redactNotes: true,
+  redactKeys: true,
+};
+
+// Prompts include the reader's note and highlight annotations
+const NOTE_FIELDS = new Set([
+  "annotation",
+  "note",
+  "existingNote",
+  "highlightAnnotations",
+  "prompt",
+  "prompts",
+  "messages",
+]);
+
+// Not "promptTokens" and the like
+const SECRET_FIELD = /api[-_]?key|authorization|secret|password|^token$/i;
+
+const SECRET_VARIABLES = [
+  "OMNIVORE_API_KEY",
+  "OPENAI_API_KEY",
+  "AZURE_OPENAI_API_KEY",
+  "ANTHROPIC_API_KEY",
+  "LLM_API_KEY",
+  "WEBHOOK_SECRET",
+  "WEBHOOK_HMAC_SECRET",
+  "KV_REST_API_TOKEN",
+];
+
+// Writes one JSON object per line, e.g.
+// {"level":"info","time":"…","requestId":"…","message":"Enqueued job"}
+export function createLogger(
+  fields: LogFields = {},
+  timings: Record<string, number> = {}
+): Logger {
+  const write = (level: LogLevel, message: string, extra?: LogFields) => {
+    const options = getLoggingOptions();
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(options.level)) {
+      return;
+    }
+
+    const entry = sanitize(
+      { level, time: new Date().toISOString(), ...fields, message, ...extra },
+      options,
+      options.redactKeys ? getSecrets() : []
+    );
+    const line = JSON.stringify(entry);
+    if (level === "error") {
+      console.error(line);
+    } else if (level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, extra) => write("debug", message, extra),
+    info: (message, extra) => write("info", message, extra),
+    warn: (message, extra) => write("warn", message, extra),
+    error: (message, extra) => write("error", message, extra),
+    child: (extra) => createLogger({ ...fields, ...extra }, timings),
+    async time(stage, run) {
+      const start = Date.now();
+      try {
+        return await run();
+      } finally {
+        const duration = Date.now() - start;
+        timings[stage] = (timings[stage] ?? 0) + duration;
+        write("debug", `Finished ${stage}`, { stage, duration });
+      }
+    },
+    timings: () => ({ ...timings }),
+  };
+}
+
+function getLoggingOptions(): LoggingOptions {
+  try {
+    return getConfig().logging;
+  } catch {
+    return FALLBACK_OPTIONS;
+  }
+}
+
+function getSecrets(): string[] {
+  return SECRET_VARIABLES.map((name) => process.env[name]).filter(
+    // Short values would redact unrelated text
+    (value): value is string => !!value && value.length >= 8
+  );
+}
+
+function sanitize(
+  value: unknown,
+  options: LoggingOptions,
+  secrets: string[],
+  key?: string
+): unknown {
+  if (key !== undefined && value !== null && value !== undefined) {
+    if (options.redactKeys && SECRET_FIELD.test(key)) {
+      return "[redacted]";
+    }
+    if (options.redactNotes && NOTE_FIELDS.has(key)) {
+      return typeof value === "string"
+        ? `[redacted, ${value.length} characters]`
+        : "[redacted]";
+    }
+  }
+
+  if (typeof value === "string") {
+    const text = secrets.reduce(
+      (text, secret) => text.split(secret).join("[redacted]"),
+      value
+    );
+    return text.length > options.maxLength
+      ? `${text.slice(0, options.maxLength)}… (${text.length} characters)`
+      : text;
+  }
+  if (value instanceof Error) {
+    return sanitize(
+      { name: value.name, message: value.message, stack: value.stack },
+      options,
+      secrets
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, options, secrets));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [
+        name,
+        sanitize(item, options, secrets, name),
+      ])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,125 @@
+// The article note is made of sections, one per action. Each is wrapped in
+// start and end markers, so the reader's own text before, between and after
+// them is kept when an action replaces its section:
+//
+//   <!-- section: Summary -->
+//   ## Summary
+//
+//   …
+//   <!-- /section: Summary -->
+
+const SECTION_HEADING = /^## +(.+?)\s*$/;
+
+// Notes written before the markers have sections that only start with a
+// "## " heading and run up to the next one
+interface LegacySection {
+  // Undefined for the text before the first heading
+  title: string | undefined;
+  lines: string[];
+}
+
+// "key-points" becomes "Key points"
+export function sectionTitle(name: string): string {
+  const words = name.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Returns the note with the section of the given title replaced by the
+// content, or with the section appended if the note doesn't have it yet
+export function replaceNoteSection(
+  note: string | null | undefined,
+  title: string,
+  content: string
+): string {
+  const section = [
+    `<!-- section: ${title} -->`,
+    `## ${title}`,
+    "",
+    demoteHeadings(content.trim()),
+    `<!-- /section: ${title} -->`,
+  ].join("\n");
+  const text = note ?? "";
+
+  const marked = markedSection(title);
+  if (marked.test(text)) {
+    return text.replace(marked, () => section);
+  }
+
+  const sections = parseLegacySections(text);
+  const legacy = sections.find((other) => isTitled(other, title));
+  if (legacy) {
+    legacy.lines = [section];
+    return joinLegacySections(sections);
+  }
+
+  return [text.trim(), section].filter(Boolean).join("\n\n");
+}
+
+export function removeNoteSection(
+  note: string | null | undefined,
+  title: string
+): string {
+  const text = tidy((note ?? "").replace(markedSection(title), ""));
+  return joinLegacySections(
+    parseLegacySections(text).filter((section) => !isTitled(section, title))
+  );
+}
+
+// The text the reader wrote, without the sections the actions wrote, so a
+// rerun doesn't take its own old output for the reader's note
+export function readerNoteText(note: string | null | undefined): string {
+  return tidy((note ?? "").replace(markedSection(), ""));
+}
+
+// A section with its markers, of the given title or any
+function markedSection(title?: string): RegExp {
+  const name = title
+    ? title.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    : "(.+?)";
+  const end = title ? name : "\\1";
+  return new RegExp(
+    `^<!-- section: ${name} -->$[\\s\\S]*?^<!-- /section: ${end} -->$`,
+    title ? "im" : "gm"
+  );
+}
+
+function parseLegacySections(note: string): LegacySection[] {
+  const sections: LegacySection[] = [{ title: undefined, lines: [] }];
+  let marked = false;
+  for (const line of note.split("\n")) {
+    // Headings inside marked sections belong to those
+    if (line.startsWith("<!-- section: ")) {
+      marked = true;
+    } else if (line.startsWith("<!-- /section: ")) {
+      marked = false;
+    }
+    const heading = !marked && line.match(SECTION_HEADING);
+    if (heading) {
+      sections.push({ title: heading[1], lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function isTitled({ title }: LegacySection, other: string): boolean {
+  return title?.toLowerCase() === other.toLowerCase();
+}
+
+function joinLegacySections(sections: LegacySection[]): string {
+  return sections
+    .map(({ lines }) => lines.join("\n").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Collapses the blank lines a removed section leaves behind
+function tidy(note: string): string {
+  return note.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Headings of the model's output stay below the section's heading
+function demoteHeadings(content: string): string {
+  return content.replace(/^#{1,2} /gm, "### ");
+}
@@ -0,0 +1,594 @@
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "./logger";
+import type { Logger } from "./logger";
+import type { Article, ArticleHighlight, Highlight, Label } from "./types";
+
+export const DEFAULT_OMNIVORE_ENDPOINT =
+  "https://api-prod.omnivore.app/api/graphql";
+
+export interface OmnivoreClientOptions {
+  apiKey: string;
+  // GraphQL endpoint, override for self-hosted Omnivore
+  endpoint?: string;
+  // Per attempt, in milliseconds
+  timeout?: number;
+  // Attempts after the first one for 429, 5xx and network errors
+  retries?: number;
+  // Base delay of the exponential backoff, in milliseconds
+  retryDelay?: number;
+  // Logs retries, with the request's fields
+  logger?: Logger;
+}
+
+export interface CreateHighlightInput {
+  type: "NOTE" | "HIGHLIGHT";
+  articleId: string;
+  annotation?: string;
+  quote?: string;
+  prefix?: string;
+  suffix?: string;
+  patch?: string;
+  highlightPositionPercent?: number;
+  highlightPositionAnchorIndex?: number;
+}
+
+export interface UpdateHighlightInput {
+  highlightId: string;
+  annotation: string;
+}
+
+export interface SearchItem {
+  id: string;
+  title: string;
+  labels: Label[];
+}
+
+export interface SearchPage {
+  items: SearchItem[];
+  // Pass as `after` to get the next page, undefined on the last page
+  cursor: string | undefined;
+  totalCount: number | undefined;
+}
+
+export interface OmnivoreClient {
+  getArticle(articleId: string): Promise<Article>;
+  // Library items matching an Omnivore search query like "in:inbox"
+  search(query: string, first: number, after?: string): Promise<SearchPage>;
+  getLabels(): Promise<Label[]>;
+  createLabel(label: Omit<Label, "id">): Promise<Label>;
+  deleteLabel(labelId: string): Promise<Label>;
+  setLabels(pageId: string, labelIds: string[]): Promise<Label[]>;
+  createHighlight(input: CreateHighlightInput): Promise<Highlight>;
+  updateHighlight(input: UpdateHighlightInput): Promise<Highlight>;
+}
+
+// Thrown for transport failures as well as for `errors` and `errorCodes`
+// in GraphQL responses
+export class OmnivoreError extends Error {
+  constructor(
+    message: string,
+    readonly errorCodes: string[] = [],
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "OmnivoreError";
+  }
+}
+
+interface GraphQLResponse<Data> {
+  data?: Data | null;
+  errors?: Array<{ message: string }>;
+}
+
+// Omnivore results are unions of a success type and an error type that
+// carries `errorCodes`
+type Result<Success> = Success | { errorCodes: string[] };
+
+const highlightFragment = `
+  fragment HighlightFields on Highlight {
+    id
+    type
+    shortId
+    quote
+    prefix
+    suffix
+    patch
+    color
+    annotation
+    createdByMe
+    createdAt
+    updatedAt
+    sharedAt
+    highlightPositionPercent
+    highlightPositionAnchorIndex
+    labels {
+      id
+      name
+      color
+      createdAt
+    }
+  }
+`;
+
+const labelFragment = `
+  fragment LabelFields on Label {
+    id
+    name
+    color
+    description
+  }
+`;
+
+const articleQuery = `
+  query Article($slug: String!, $username: String!, $format: String) {
+    article(slug: $slug, username: $username, format: $format) {
+      ... on ArticleSuccess {
+        article {
+          title
+          author
+          url
+          language
+          directionality
+          content
+          labels {
+            ...LabelFields
+          }
+          highlights(input: { includeFriends: false }) {
+            id
+            shortId
+            type
+            quote
+            annotation
+          }
+        }
+      }
+      ... on ArticleError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const searchQuery = `
+  query Search($query: String, $first: Int, $after: String) {
+    search(query: $query, first: $first, after: $after) {
+      ... on SearchSuccess {
+        edges {
+          node {
+            id
+            title
+            labels {
+              ...LabelFields
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+          totalCount
+        }
+      }
+      ... on SearchError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const labelsQuery = `
+  query GetLabels {
+    labels {
+      ... on LabelsSuccess {
+        labels {
+          ...LabelFields
+        }
+      }
+      ... on LabelsError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const createLabelMutation = `
+  mutation CreateLabel($input: CreateLabelInput!) {
+    createLabel(input: $input) {
+      ... on CreateLabelSuccess {
+        label {
+          ...LabelFields
+        }
+      }
+      ... on CreateLabelError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const deleteLabelMutation = `
+  mutation DeleteLabel($id: ID!) {
+    deleteLabel(id: $id) {
+      ... on DeleteLabelSuccess {
+        label {
+          ...LabelFields
+        }
+      }
+      ... on DeleteLabelError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const setLabelsMutation = `
+  mutation SetLabels($input: SetLabelsInput!) {
+    setLabels(input: $input) {
+      ... on SetLabelsSuccess {
+        labels {
+          ...LabelFields
+        }
+      }
+      ... on SetLabelsError {
+        errorCodes
+      }
+    }
+  }
+  ${labelFragment}
+`;
+
+const createHighlightMutation = `
+  mutation CreateHighlight($input: CreateHighlightInput!) {
+    createHighlight(input: $input) {
+      ... on CreateHighlightSuccess {
+        highlight {
+          ...HighlightFields
+        }
+      }
+      ... on CreateHighlightError {
+        errorCodes
+      }
+    }
+  }
+  ${highlightFragment}
+`;
+
+const updateHighlightMutation = `
+  mutation UpdateHighlight($input: UpdateHighlightInput!) {
+    updateHighlight(input: $input) {
+      ... on UpdateHighlightSuccess {
+        highlight {
+          ...HighlightFields
+        }
+      }
+      ... on UpdateHighlightError {
+        errorCodes
+      }
+    }
+  }
+  ${highlightFragment}
+`;
+
+export function createOmnivoreClient({
+  apiKey,
+  endpoint = DEFAULT_OMNIVORE_ENDPOINT,
+  timeout = 30_000,
+  retries = 3,
+  retryDelay = 500,
+  logger = createLogger(),
+}: OmnivoreClientOptions): OmnivoreClient {
+  async function request<Data>(
+    operation: string,
+    query: string,
+    variables: Record<string, unknown> = {}
+  ): Promise<Data> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: apiKey,
+          },
+          body: JSON.stringify({ query, variables }),
+          redirect: "follow",
+          signal: AbortSignal.timeout(timeout),
+        });
+      } catch (error) {
+        // Network failures and timeouts
+        if (attempt < retries) {
+          logger.warn(`${operation} failed, retrying`, {
+            operation,
+            attempt,
+            error,
+          });
+          await sleep(backoff(attempt, retryDelay));
+          continue;
+        }
+        throw new OmnivoreError(
+          `${operation} failed: ${(error as Error).message}`
+        );
+      }
+
+      if (isRetryable(response.status) && attempt < retries) {
+        logger.warn(`${operation} returned ${response.status}, retrying`, {
+          operation,
+          attempt,
+          status: response.status,
+        });
+        await sleep(
+          retryAfter(response) ?? backoff(attempt, retryDelay)
+        );
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new OmnivoreError(
+          `${operation} failed with HTTP ${response.status}: ${await response.text()}`,
+          [],
+          response.status
+        );
+      }
+
+      const result = (await response.json()) as GraphQLResponse<Data>;
+      if (result.errors?.length || !result.data) {
+        throw new OmnivoreError(
+          `${operation} failed: ${
+            result.errors?.map(({ message }) => message).join(", ") ||
+            "empty response"
+          }`,
+          [],
+          response.status
+        );
+      }
+      return result.data;
+    }
+  }
+
+  const client: OmnivoreClient = {
+    async getArticle(articleId) {
+      const data = await request<{
+        article: Result<{
+          article: {
+            title: string;
+            author: string | null;
+            url: string;
+            language: string | null;
+            directionality: Article["directionality"];
+            content: string;
+            labels: Label[];
+            highlights: ArticleHighlight[];
+          };
+        }>;
+      }>("Article", articleQuery, {
+        slug: articleId,
+        username: ".",
+        format: "markdown",
+      });
+      const {
+        title,
+        author,
+        url,
+        language,
+        directionality,
+        content,
+        labels,
+        highlights,
+      } = unwrap("Article", data.article).article;
+
+      return {
+        id: articleId,
+        title,
+        author,
+        url,
+        language,
+        directionality: directionality ?? null,
+        labels,
+        highlights,
+        existingNote: highlights.find(({ type }) => type === "NOTE"),
+        content,
+      };
+    },
+
+    async search(query, first, after) {
+      const data = await request<{
+        search: Result<{
+          edges: Array<{ node: SearchItem }>;
+          pageInfo: {
+            hasNextPage: boolean;
+            endCursor: string | null;
+            totalCount: number | null;
+          };
+        }>;
+      }>("Search", searchQuery, { query, first, after });
+      const { edges, pageInfo } = unwrap("Search", data.search);
+
+      return {
+        items: edges.map(({ node }) => node),
+        cursor: (pageInfo.hasNextPage && pageInfo.endCursor) || undefined,
+        totalCount: pageInfo.totalCount ?? undefined,
+      };
+    },
+
+    async getLabels() {
+      const data = await request<{ labels: Result<{ labels: Label[] }> }>(
+        "GetLabels",
+        labelsQuery
+      );
+      return unwrap("GetLabels", data.labels).labels;
+    },
+
+    async createLabel(label) {
+      const data = await request<{ createLabel: Result<{ label: Label }> }>(
+        "CreateLabel",
+        createLabelMutation,
+        { input: label }
+      );
+      // Names are unique, so an attempt that seemed to fail but went
+      // through, or a concurrent delivery, already created the label
+      if (hasErrorCode(data.createLabel, "LABEL_ALREADY_EXISTS")) {
+        const name = label.name.toLowerCase();
+        const existing = (await client.getLabels()).find(
+          (other) => other.name.toLowerCase() === name
+        );
+        if (existing) {
+          return existing;
+        }
+      }
+      return unwrap("CreateLabel", data.createLabel).label;
+    },
+
+    async deleteLabel(labelId) {
+      const data = await request<{ deleteLabel: Result<{ label: Label }> }>(
+        "DeleteLabel",
+        deleteLabelMutation,
+        { id: labelId }
+      );
+      return unwrap("DeleteLabel", data.deleteLabel).label;
+    },
+
+    async setLabels(pageId, labelIds) {
+      const data = await request<{ setLabels: Result<{ labels: Label[] }> }>(
+        "SetLabels",
+        setLabelsMutation,
+        { input: { pageId, labelIds } }
+      );
+      return unwrap("SetLabels", data.setLabels).labels;
+    },
+
+    async createHighlight(input) {
+      const id = uuidv4();
+      const data = await request<{
+        createHighlight: Result<{ highlight: Highlight }>;
+      }>("CreateHighlight", createHighlightMutation, {
+        input: { id, shortId: id.substring(0, 8), ...input },
+      });
+      // The id is ours, so it only exists if an attempt that seemed to fail
+      // went through. Setting the same annotation returns that highlight.
+      if (hasErrorCode(data.createHighlight, "ALREADY_EXISTS")) {
+        return client.updateHighlight({
+          highlightId: id,
+          annotation: input.annotation ?? "",
+        });
+      }
+      return unwrap("CreateHighlight", data.createHighlight).highlight;
+    },
+
+    async updateHighlight(input) {
+      const data = await request<{
+        updateHighlight: Result<{ highlight: Highlight }>;
+      }>("UpdateHighlight", updateHighlightMutation, { input });
+      return unwrap("UpdateHighlight", data.updateHighlight).highlight;
+    },
+  };
+  return client;
+}
+
+function unwrap<Success extends object>(
+  operation: string,
+  result: Result<Success>
+): Success {
+  if ("errorCodes" in result) {
+    throw new OmnivoreError(
+      `${operation} failed: ${result.errorCodes.join(", ")}`,
+      result.errorCodes
+    );
+  }
+  return result;
+}
+
+function hasErrorCode<Success extends object>(
+  result: Result<Success>,
+  code: string
+): boolean {
+  return "errorCodes" in result && result.errorCodes.includes(code);
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function backoff(attempt: number, retryDelay: number): number {
+  return retryDelay * 2 ** attempt * (1 + Math.random() / 2);
+}
+
+// Retry-After in seconds, HTTP dates aren't used by Omnivore
+function retryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get("Retry-After"));
+  return seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Sets the labels on the article, reusing existing labels by name and
+// creating the missing ones
+export async function applyLabelToOmnivoreArticle(
+  omnivore: OmnivoreClient,
+  articleId: string,
+  labels: Partial<Label>[],
+  allLabels: Label[],
+  logger: Logger
+): Promise<Label[]> {
+  const existingLabelsMap = new Map(
+    allLabels.map((label) => [label.name.toLowerCase(), label])
+  );
+
+  const labelIds: string[] = [];
+  for (const label of labels) {
+    if (label.id) {
+      labelIds.push(label.id);
+      continue;
+    }
+    if (!label.name) {
+      logger.error("Label is missing a name", { label });
+      continue;
+    }
+
+    const existingLabel = existingLabelsMap.get(label.name.toLowerCase());
+    if (existingLabel?.id) {
+      labelIds.push(existingLabel.id);
+      continue;
+    }
+
+    const createdLabel = await omnivore.createLabel({
+      name: label.name,
+      color: label.color,
+      description: label.description ?? "",
+    });
+    existingLabelsMap.set(createdLabel.name.toLowerCase(), createdLabel);
+    labelIds.push(createdLabel.id as string);
+  }
+
+  const articleLabels = await omnivore.setLabels(articleId, [
+    ...new Set(labelIds),
+  ]);
+  logger.debug("Labels set on the article", {
+    labels: articleLabels.map(({ name }) => name),
+  });
+  return articleLabels;
+}
+
+// Omnivore UI only shows one highlight note per article so
+// if we have an existing note, update it; otherwise, create a new one
+export function applyAnnotationToOmnivoreArticle(
+  omnivore: OmnivoreClient,
+  articleId: string,
+  annotation: string,
+  existingNote: ArticleHighlight | null | undefined
+): Promise<Highlight> {
+  if (existingNote) {
+    return omnivore.updateHighlight({
+      highlightId: existingNote.id,
+      annotation,
+    });
+  } else {
+    return omnivore.createHighlight({ type: "NOTE", articleId, annotation });
+  }
+}
@@ -0,0 +1,178 @@
+import { runLabelActions } from "./actions";
+import type { ActionReport, RequestContext } from "./actions";
+import { getConfig } from "./config";
+import {
+  createDryRunClient,
+  formatDraftNote,
+  PREVIEW_SECTION,
+  toPreviewLabel,
+} from "./dryrun";
+import type { DryRunClient, DryRunPlan } from "./dryrun";
+import { trackSelfTriggers } from "./idempotency";
+import { diffLabels, mergeLabels } from "./labels";
+import { createLogger } from "./logger";
+import type { Logger } from "./logger";
+import { replaceNoteSection } from "./notebook";
+import {
+  applyAnnotationToOmnivoreArticle,
+  applyLabelToOmnivoreArticle,
+  createOmnivoreClient,
+} from "./omnivore";
+import type { OmnivoreClient } from "./omnivore";
+import { getDoneLabel, getLabelAction } from "./prompts";
+import { getStore } from "./store";
+import type { Label } from "./types";
+
+export interface ProcessArticleOptions {
+  requestId: string;
+  articleId: string;
+  // Trigger labels, e.g. ["do:summary", "do:tags"]
+  labels: string[];
+  annotateLabel: string;
+  // Client to use instead of the configured one, e.g. a dry-run client
+  omnivore?: OmnivoreClient;
+  dryRun?: boolean;
+  // Created from requestId and articleId if omitted
+  logger?: Logger;
+}
+
+export interface PreviewOptions extends ProcessArticleOptions {
+  // Also writes the plan into a draft section of the article note and
+  // swaps the labels' preview variants on the article for their done labels
+  draftNote?: boolean;
+}
+
+export interface PreviewResult {
+  results: ActionReport[];
+  plan: DryRunPlan;
+}
+
+export function getOmnivoreClient(logger?: Logger): OmnivoreClient {
+  return trackSelfTriggers(createConfiguredClient(logger), getStore());
+}
+
+// Records Omnivore mutations instead of sending them, see previewArticle
+export function getDryRunClient(logger?: Logger): DryRunClient {
+  return createDryRunClient(createConfiguredClient(logger));
+}
+
+function createConfiguredClient(logger?: Logger): OmnivoreClient {
+  return createOmnivoreClient({
+    apiKey: process.env["OMNIVORE_API_KEY"] ?? "",
+    endpoint: getConfig().omnivore.endpoint,
+    logger,
+  });
+}
+
+// Fetches the article and runs the actions of its trigger labels. Used by
+// the webhook directly and by the queue worker.
+export async function processArticle({
+  requestId,
+  articleId,
+  labels,
+  annotateLabel,
+  logger = createLogger({ requestId, articleId }),
+  omnivore = getOmnivoreClient(logger),
+  dryRun = false,
+}: ProcessArticleOptions): Promise<ActionReport[]> {
+  logger.info("Running actions", { labels, dryRun });
+
+  const article = await logger.time("fetch article", () =>
+    omnivore.getArticle(articleId)
+  );
+  logger.debug("Loaded article", { article });
+
+  let allLabels: Promise<Label[]> | undefined;
+  const context: RequestContext = {
+    requestId,
+    logger,
+    article,
+    annotateLabel,
+    omnivore,
+    getAllLabels: () =>
+      (allLabels ??= logger.time("fetch labels", () => omnivore.getLabels())),
+    store: getStore(),
+    dryRun,
+  };
+
+  // Only fetched when a trigger label isn't on the article
+  const onArticle = new Set(article.labels.map(({ name }) => name));
+  const labelActions = getLabelAction(
+    labels,
+    article,
+    annotateLabel,
+    labels.every((label) => onArticle.has(label))
+      ? []
+      : await context.getAllLabels()
+  );
+  logger.debug("Resolved label actions", { labelActions });
+
+  const results = await runLabelActions(labelActions, context);
+  logger.info("Actions finished", { results });
+  return results;
+}
+
+// Runs the actions against a client that only records what would be
+// written: model calls happen, Omnivore mutations don't.
+export async function previewArticle({
+  draftNote = false,
+  ...options
+}: PreviewOptions): Promise<PreviewResult> {
+  const { requestId, articleId, labels, annotateLabel } = options;
+  const logger = options.logger ?? createLogger({ requestId, articleId });
+  const omnivore = getDryRunClient(logger);
+  const results = await processArticle({
+    ...options,
+    logger,
+    omnivore,
+    dryRun: true,
+  });
+  logger.info("Dry run plan", { plan: omnivore.plan });
+
+  if (draftNote) {
+    const client = getOmnivoreClient(logger);
+    const { existingNote, labels: articleLabels } = await logger.time(
+      "fetch article",
+      () => client.getArticle(articleId)
+    );
+    await logger.time("write-back", () =>
+      applyAnnotationToOmnivoreArticle(
+        client,
+        articleId,
+        replaceNoteSection(
+          existingNote?.annotation,
+          PREVIEW_SECTION,
+          formatDraftNote(labels, omnivore.plan)
+        ),
+        existingNote
+      )
+    );
+
+    // The next label event would run the preview again otherwise
+    const previewLabels = labels.map(toPreviewLabel);
+    const updatedLabels = mergeLabels(articleLabels, {
+      add: previewLabels.map((label) => ({
+        name: getDoneLabel(label, annotateLabel),
+        description: "",
+      })),
+      remove: previewLabels,
+    });
+    const { added, removed } = diffLabels(articleLabels, updatedLabels);
+    if (added.length > 0 || removed.length > 0) {
+      const allLabels = await logger.time("fetch labels", () =>
+        client.getLabels()
+      );
+      await logger.time("write-back", () =>
+        applyLabelToOmnivoreArticle(
+          client,
+          articleId,
+          updatedLabels,
+          allLabels,
+          logger
+        )
+      );
+    }
+  }
+
+  return { results, plan: omnivore.plan };
+}
@@ -0,0 +1,145 @@
+import { resolveAction } from "./actions/registry";
+import { getActionConfig, getConfig } from "./config";
+import { parseLabelDescription } from "./frontmatter";
+import { readerNoteText } from "./notebook";
+import type { Article, Label, LabelAction } from "./types";
+
+export function arrayToPromptGenerator(array: (string | null)[]): string {
+  return array
+    .filter((item): item is string => item !== null)
+    .map((item) => `- ${item}`)
+    .join("\n");
+}
+
+function getLabelFromLabelList(
+  labelName: string,
+  labels: Label[]
+): Label | undefined {
+  return labels.find((l) => l.name === labelName);
+}
+
+// The instruction followed by the article and what the reader already
+// highlighted and wrote, used as prompt body by the actions
+export function articlePrompts(
+  instruction: string,
+  article: Article
+): string[] {
+  const note = readerNoteText(article.existingNote?.annotation);
+  const highlights = readerHighlightsPrompt(article);
+  return [
+    instruction,
+    `Article title: ${article.title}`,
+    `Article content: ${article.content}`,
+    ...(note ? [`The reader's existing note on the article: ${note}`] : []),
+    ...(highlights ? [highlights] : []),
+  ];
+}
+
+// The reader's highlights with their notes, so the model can build on them.
+// Null if the article has no highlights.
+export function readerHighlightsPrompt(article: Article): string | null {
+  const highlights = formatReaderHighlights(article);
+  if (!highlights) {
+    return null;
+  }
+  return `Passages the reader highlighted:\n${highlights.replace(/^/gm, "  ")}`;
+}
+
+// One "- " line per highlight, empty if the article has none
+export function formatReaderHighlights(article: Article): string {
+  return article.highlights
+    .filter(({ type, quote }) => type === "HIGHLIGHT" && quote?.trim())
+    .map(({ quote, annotation }) => {
+      const note = annotation?.trim();
+      return `- "${quote?.trim()}"${note ? ` (reader's note: ${note})` : ""}`;
+    })
+    .join("\n");
+}
+
+// Trigger labels that aren't on the article, like the default actions of
+// new pages, take their description from the account's labels
+export function getLabelAction(
+  matchingLabels: string[],
+  article: Article,
+  annotateLabel: string,
+  accountLabels: Label[] = []
+): LabelAction[] {
+  return matchingLabels.map((label) => {
+    const action = label.split(":")[1];
+    const labelData =
+      getLabelFromLabelList(label, article.labels) ??
+      getLabelFromLabelList(label, accountLabels);
+    const description = labelData?.description;
+    const { instruction, options, errors } = parseLabelDescription(
+      description ?? ""
+    );
+    const actionConfig = getActionConfig(action);
+    const promptWithFallback =
+      instruction ||
+      actionConfig.prompt ||
+      resolveAction(action)?.defaultPrompt ||
+      getConfig().defaultPrompt;
+
+    return {
+      label: label,
+      replacedLabel: getDoneLabel(label, annotateLabel),
+      processLabel: label.split(":")[0],
+      action,
+      labelData,
+      description,
+      instruction: promptWithFallback,
+      prompts: articlePrompts(promptWithFallback, article),
+      completionOptions: { ...actionConfig.options, ...options },
+      settingsErrors: errors,
+    };
+  });
+}
+
+// The label marking a trigger label's action as done, e.g. `did:summary`
+// for `do:summary`
+export function getDoneLabel(label: string, annotateLabel: string): string {
+  const { doneLabel } = getConfig();
+  return label.startsWith(`${annotateLabel}:`)
+    ? `${doneLabel}:${label.slice(annotateLabel.length + 1)}`
+    : doneLabel;
+}
+
+// Trigger and done labels belong to this function, not to the taxonomy
+export function isPipelineLabel(name: string): boolean {
+  const { triggerLabel, doneLabel } = getConfig();
+  return [triggerLabel, doneLabel].some(
+    (prefix) => name === prefix || name.startsWith(`${prefix}:`)
+  );
+}
+
+export function labelsToPrompt(
+  labels: Label[],
+  annotateLabel: string,
+  prePrompt: string,
+  returnJson: boolean = true
+): string | null {
+  if (labels.length === 0) {
+    return null;
+  }
+
+  const labelsWithoutAnnotationLabel = labels.filter(
+    (label) => !label.name.startsWith(annotateLabel)
+  );
+
+  if (labelsWithoutAnnotationLabel.length === 0) {
+    return null;
+  }
+
+  if (returnJson) {
+    const json = labelsWithoutAnnotationLabel.map((label) => ({
+      name: label.name,
+      description: label.description || "",
+    }));
+    return `${prePrompt} ${JSON.stringify(json, null, 2)}`;
+  } else {
+    const labelString = labelsWithoutAnnotationLabel
+      .map((label) => label.name)
+      .join(", ");
+    return `${prePrompt} ${labelString}`;
+  }
+}
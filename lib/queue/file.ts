@@ -0,0 +1,25 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { createJobQueue } from "./queue";
+import type { Job, JobQueue } from "./queue";
+
+// Jobs in a JSON file, shared by Node processes like the worker and the
+// backfill script. The edge function can't use it as it has no file system.
+export function createFileQueue(path: string): JobQueue {
+  return createJobQueue({
+    async load() {
+      try {
+        return JSON.parse(await readFile(path, "utf8")) as Job[];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        throw error;
+      }
+    },
+    async save(jobs) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(jobs, null, 2));
+    },
+  });
+}
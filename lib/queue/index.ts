@@ -0,0 +1,49 @@
+import { getConfig } from "../config";
+import { getStore } from "../store";
+import { createMemoryQueue } from "./memory";
+import type { JobQueue } from "./queue";
+import { createStoreQueue } from "./store";
+import type { DrainOptions } from "./worker";
+
+export type { Job, JobInput, JobQueue, JobStatus, JobStorage } from "./queue";
+export { createJobQueue } from "./queue";
+export { createMemoryQueue } from "./memory";
+export { createStoreQueue } from "./store";
+export { drainQueue } from "./worker";
+export type { DrainOptions, DrainSummary } from "./worker";
+
+// The file queue is left out on purpose, importing it would pull Node's fs
+// into the edge bundle. Node entrypoints import "./file" and pass it to
+// setQueue.
+
+let currentQueue: JobQueue | undefined;
+
+// The queue set with setQueue, the one configured by jobs.queue, or
+// undefined if jobs run inline
+export function getQueue(): JobQueue | undefined {
+  if (currentQueue) {
+    return currentQueue;
+  }
+
+  switch (getConfig().jobs.queue) {
+    case "inline":
+      return undefined;
+    case "memory":
+      return (currentQueue = createMemoryQueue());
+    case "store":
+      return (currentQueue = createStoreQueue(getStore()));
+    case "file":
+      throw new Error(
+        `The "file" job queue only works in Node scripts, which call setQueue.`
+      );
+  }
+}
+
+export function setQueue(queue: JobQueue | undefined): void {
+  currentQueue = queue;
+}
+
+export function getDrainOptions(): DrainOptions {
+  const { maxAttempts, retryDelay } = getConfig().jobs;
+  return { maxAttempts, retryDelay: retryDelay * 1000 };
+}
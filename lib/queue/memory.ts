@@ -0,0 +1,16 @@
+import { createJobQueue } from "./queue";
+import type { Job, JobQueue } from "./queue";
+
+// Jobs live in this process only, for local development and tests
+export function createMemoryQueue(): JobQueue {
+  let jobs: Job[] = [];
+  return createJobQueue(
+    {
+      load: async () => jobs.map((job) => ({ ...job })),
+      save: async (changed) => {
+        jobs = changed;
+      },
+    },
+    { local: true }
+  );
+}
@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ActionReport } from "../actions";
+
+// "inline" runs the actions before answering the webhook, "file" only works
+// in the Node scripts
+export const JOB_QUEUES = ["inline", "memory", "store", "file"] as const;
+export type JobQueueName = (typeof JOB_QUEUES)[number];
+
+export type JobStatus = "pending" | "running" | "done" | "failed";
+
+export interface Job {
+  id: string;
+  requestId: string;
+  pageId: string;
+  // Trigger labels to process, e.g. ["do:summary"]
+  labels: string[];
+  annotateLabel: string;
+  // Runs the labels as preview into the draft section of the note
+  preview?: boolean;
+  status: JobStatus;
+  attempts: number;
+  // Epoch milliseconds before which the job isn't claimed
+  runAfter: number;
+  // Epoch milliseconds after which a running job counts as abandoned, e.g.
+  // by a crashed worker, and is claimed again
+  leaseUntil?: number;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+  results?: ActionReport[];
+}
+
+export type JobInput = Pick<
+  Job,
+  "requestId" | "pageId" | "labels" | "annotateLabel" | "preview"
+>;
+
+export interface JobQueue {
+  // Jobs only this process sees, the webhook works them off itself
+  local: boolean;
+  enqueue(input: JobInput): Promise<Job>;
+  // Marks the next due pending or abandoned job as running and returns it
+  claim(): Promise<Job | undefined>;
+  complete(jobId: string, results: ActionReport[]): Promise<Job>;
+  // Puts the job back for another attempt at retryAt, or marks it failed
+  // for good if retryAt is undefined
+  fail(
+    jobId: string,
+    error: string,
+    retryAt: number | undefined,
+    labels?: string[]
+  ): Promise<Job>;
+  get(jobId: string): Promise<Job | undefined>;
+  list(): Promise<Job[]>;
+}
+
+// Where a queue keeps its jobs, loaded and saved as a whole
+export interface JobStorage {
+  load(): Promise<Job[]>;
+  save(jobs: Job[]): Promise<void>;
+}
+
+export interface JobQueueOptions {
+  local?: boolean;
+  // Milliseconds a worker may run a job before it's claimed again
+  leaseTime?: number;
+  // Milliseconds done and failed jobs are kept for inspection
+  retention?: number;
+}
+
+export const DEFAULT_LEASE_TIME = 10 * 60 * 1000;
+
+export const DEFAULT_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+export function createJobQueue(
+  storage: JobStorage,
+  {
+    local = false,
+    leaseTime = DEFAULT_LEASE_TIME,
+    retention = DEFAULT_RETENTION,
+  }: JobQueueOptions = {}
+): JobQueue {
+  // Serializes the read-modify-write cycles of this process
+  let pending: Promise<unknown> = Promise.resolve();
+
+  function update<Result>(change: (jobs: Job[]) => Result): Promise<Result> {
+    const next = pending.then(async () => {
+      const jobs = pruneJobs(await storage.load(), retention);
+      const result = change(jobs);
+      await storage.save(jobs);
+      return result;
+    });
+    pending = next.catch(() => undefined);
+    return next;
+  }
+
+  function updateJob(jobId: string, change: (job: Job) => void) {
+    return update((jobs) => {
+      const job = jobs.find(({ id }) => id === jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} not found.`);
+      }
+      change(job);
+      job.updatedAt = new Date().toISOString();
+      return { ...job };
+    });
+  }
+
+  return {
+    local,
+
+    enqueue: (input) =>
+      update((jobs) => {
+        const job = createJob(input);
+        jobs.push(job);
+        return { ...job };
+      }),
+
+    claim: () =>
+      update((jobs) => {
+        const now = Date.now();
+        const job = jobs.find((job) => isClaimable(job, now));
+        if (!job) {
+          return undefined;
+        }
+        startJob(job, now + leaseTime);
+        return { ...job };
+      }),
+
+    complete: (jobId, results) =>
+      updateJob(jobId, (job) => completeJob(job, results)),
+
+    fail: (jobId, error, retryAt, labels) =>
+      updateJob(jobId, (job) => failJob(job, error, retryAt, labels)),
+
+    get: async (jobId) => {
+      const job = (await storage.load()).find(({ id }) => id === jobId);
+      return job && { ...job };
+    },
+
+    list: async () => (await storage.load()).map((job) => ({ ...job })),
+  };
+}
+
+// The state changes of a job, shared by the queues
+
+export function createJob(input: JobInput): Job {
+  const now = new Date().toISOString();
+  return {
+    ...input,
+    id: uuidv4(),
+    status: "pending",
+    attempts: 0,
+    runAfter: Date.now(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Due pending jobs and running ones whose worker seems gone
+export function isClaimable(
+  { status, runAfter, leaseUntil = 0 }: Job,
+  now: number
+): boolean {
+  return (
+    (status === "pending" && runAfter <= now) ||
+    (status === "running" && leaseUntil <= now)
+  );
+}
+
+export function startJob(job: Job, leaseUntil: number): void {
+  if (job.status === "running") {
+    job.lastError = "Abandoned by the worker that claimed it.";
+  }
+  job.status = "running";
+  job.attempts++;
+  job.leaseUntil = leaseUntil;
+  job.updatedAt = new Date().toISOString();
+}
+
+export function completeJob(job: Job, results: ActionReport[]): void {
+  job.status = "done";
+  job.results = results;
+  delete job.leaseUntil;
+}
+
+export function failJob(
+  job: Job,
+  error: string,
+  retryAt: number | undefined,
+  labels: string[] | undefined
+): void {
+  job.status = retryAt === undefined ? "failed" : "pending";
+  job.lastError = error;
+  delete job.leaseUntil;
+  if (retryAt !== undefined) {
+    job.runAfter = retryAt;
+  }
+  if (labels) {
+    job.labels = labels;
+  }
+}
+
+// Drops done and failed jobs that finished longer than retention ago, so
+// the storage doesn't keep growing
+function pruneJobs(jobs: Job[], retention: number): Job[] {
+  const cutoff = Date.now() - retention;
+  return jobs.filter(
+    ({ status, updatedAt }) =>
+      (status !== "done" && status !== "failed") ||
+      Date.parse(updatedAt) > cutoff
+  );
+}
@@ -0,0 +1,108 @@
+import type { KeyValueStore } from "../store";
+import {
+  completeJob,
+  createJob,
+  DEFAULT_LEASE_TIME,
+  DEFAULT_RETENTION,
+  failJob,
+  isClaimable,
+  startJob,
+} from "./queue";
+import type { Job, JobQueue, JobQueueOptions } from "./queue";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Jobs in the state store, so the webhook and workers running elsewhere
+// share them through KV. Every job has its own key and the IDs are appended
+// to a list per day, so no write replaces another process's jobs:
+// enqueueing only adds keys, and a job is changed only by the worker that
+// claimed it. Jobs expire retention after their last update, which prunes
+// finished ones. A job left pending for longer is dropped as well.
+export function createStoreQueue(
+  store: KeyValueStore,
+  {
+    leaseTime = DEFAULT_LEASE_TIME,
+    retention = DEFAULT_RETENTION,
+  }: Omit<JobQueueOptions, "local"> = {}
+): JobQueue {
+  const ttl = Math.ceil(retention / 1000);
+
+  const save = async (job: Job) => {
+    await store.set(jobKey(job.id), JSON.stringify(job), ttl);
+    return job;
+  };
+
+  const get = async (jobId: string) => {
+    const value = await store.get(jobKey(jobId));
+    return value ? (JSON.parse(value) as Job) : undefined;
+  };
+
+  // Oldest first, the lists of the days that can still hold jobs
+  const list = async () => {
+    const days = Math.ceil(retention / DAY);
+    const ids = new Set<string>();
+    for (let day = days; day >= 0; day--) {
+      for (const id of await store.list(indexKey(Date.now() - day * DAY))) {
+        ids.add(id);
+      }
+    }
+    const jobs = await Promise.all([...ids].map(get));
+    return jobs.filter((job): job is Job => job !== undefined);
+  };
+
+  const updateJob = async (jobId: string, change: (job: Job) => void) => {
+    const job = await get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found.`);
+    }
+    change(job);
+    job.updatedAt = new Date().toISOString();
+    return save(job);
+  };
+
+  return {
+    local: false,
+
+    async enqueue(input) {
+      const job = await save(createJob(input));
+      await store.append(indexKey(Date.now()), [job.id], ttl + DAY / 1000);
+      return job;
+    },
+
+    async claim() {
+      const now = Date.now();
+      for (const job of await list()) {
+        // Only one process gets to start an attempt, the others move on
+        if (
+          isClaimable(job, now) &&
+          (await store.add(
+            `${jobKey(job.id)}:attempt:${job.attempts + 1}`,
+            "claimed",
+            ttl
+          ))
+        ) {
+          startJob(job, now + leaseTime);
+          return save(job);
+        }
+      }
+      return undefined;
+    },
+
+    complete: (jobId, results) =>
+      updateJob(jobId, (job) => completeJob(job, results)),
+
+    fail: (jobId, error, retryAt, labels) =>
+      updateJob(jobId, (job) => failJob(job, error, retryAt, labels)),
+
+    get,
+    list,
+  };
+}
+
+function jobKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+function indexKey(time: number): string {
+  return `jobs:${new Date(time).toISOString().slice(0, 10)}`;
+}
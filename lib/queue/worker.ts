@@ -0,0 +1,104 @@
+import type { ActionReport } from "../actions";
+import { createLogger } from "../logger";
+import { previewArticle, processArticle } from "../pipeline";
+import type { Job, JobQueue } from "./queue";
+
+export interface DrainOptions {
+  // Attempts per job including the first one
+  maxAttempts?: number;
+  // Delay before the first retry in milliseconds, doubled for each further
+  retryDelay?: number;
+  // Processes a job, processArticle by default
+  run?: (job: Job) => Promise<ActionReport[]>;
+}
+
+export interface DrainSummary {
+  done: number;
+  retried: number;
+  failed: number;
+}
+
+const runJob = async (job: Job) => {
+  const options = {
+    requestId: job.requestId,
+    articleId: job.pageId,
+    labels: job.labels,
+    annotateLabel: job.annotateLabel,
+    logger: jobLogger(job),
+  };
+  return job.preview
+    ? (await previewArticle({ ...options, draftNote: true })).results
+    : processArticle(options);
+};
+
+// Entries of a job carry the request ID of the webhook that enqueued it
+function jobLogger(job: Job) {
+  return createLogger({
+    requestId: job.requestId,
+    articleId: job.pageId,
+    jobId: job.id,
+  });
+}
+
+// Processes due jobs until none is left. Jobs are retried with exponential
+// backoff; only the labels whose action failed are tried again.
+export async function drainQueue(
+  queue: JobQueue,
+  { maxAttempts = 3, retryDelay = 30_000, run = runJob }: DrainOptions = {}
+): Promise<DrainSummary> {
+  const summary: DrainSummary = { done: 0, retried: 0, failed: 0 };
+
+  for (let job = await queue.claim(); job; job = await queue.claim()) {
+    const logger = jobLogger(job);
+    // A job that keeps crashing its worker would otherwise be claimed
+    // forever
+    if (job.attempts > maxAttempts) {
+      await queue.fail(
+        job.id,
+        job.lastError ?? "Too many attempts.",
+        undefined
+      );
+      logger.warn("Job abandoned too often, giving up", {
+        attempts: job.attempts,
+      });
+      summary.failed++;
+      continue;
+    }
+    logger.info("Processing job", { attempt: job.attempts });
+
+    let error: string;
+    let retryLabels: string[] | undefined;
+    try {
+      const results = await run(job);
+      const failed = results.filter(({ status }) => status === "failed");
+      if (failed.length === 0) {
+        await queue.complete(job.id, results);
+        summary.done++;
+        continue;
+      }
+      error = failed
+        .map(({ label, message }) => `${label}: ${message}`)
+        .join("; ");
+      retryLabels = failed.map(({ label }) => label);
+    } catch (caught) {
+      error = (caught as Error).message;
+    }
+
+    const retryAt =
+      job.attempts < maxAttempts
+        ? Date.now() + retryDelay * 2 ** (job.attempts - 1)
+        : undefined;
+    await queue.fail(job.id, error, retryAt, retryLabels);
+    logger.warn(`Job failed, ${retryAt ? "retrying" : "giving up"}`, {
+      error,
+      ...(retryAt && { retryAt: new Date(retryAt).toISOString() }),
+    });
+    if (retryAt) {
+      summary.retried++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
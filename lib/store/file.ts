@@ -0,0 +1,107 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { KeyValueStore } from "./store";
+
+type Entries = Record<string, { value: string; expiresAt: number }>;
+
+// JSON file for scripts and workers running in Node. The edge function
+// can't use it as it has no file system.
+export function createFileStore(path: string): KeyValueStore {
+  // Serializes the reads and read-modify-write cycles of this process
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<Result>(run: () => Promise<Result>): Promise<Result> {
+    const next = queue.then(run);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  const update = <Result>(change: (entries: Entries) => Result) =>
+    serialize(async () => {
+      const entries = await read();
+      const result = change(entries);
+      await write(entries);
+      return result;
+    });
+
+  const lookup = (key: string) =>
+    serialize(async () => (await read())[key]?.value);
+
+  // Written next to the file and renamed into place, so a reader in
+  // another process never sees a half-written file
+  async function write(entries: Entries): Promise<void> {
+    const temporary = `${path}.${uuidv4()}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(temporary, JSON.stringify(entries, null, 2));
+    await rename(temporary, path);
+  }
+
+  async function read(): Promise<Entries> {
+    let entries: Entries;
+    try {
+      entries = JSON.parse(await readFile(path, "utf8")) as Entries;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      entries = {};
+    }
+    const now = Date.now();
+    for (const [key, { expiresAt }] of Object.entries(entries)) {
+      if (expiresAt <= now) {
+        delete entries[key];
+      }
+    }
+    return entries;
+  }
+
+  const expiresAt = (ttlSeconds: number) => Date.now() + ttlSeconds * 1000;
+
+  return {
+    get: lookup,
+    async set(key, value, ttlSeconds) {
+      await update((entries) => {
+        entries[key] = { value, expiresAt: expiresAt(ttlSeconds) };
+      });
+    },
+    async add(key, value, ttlSeconds) {
+      return update((entries) => {
+        if (entries[key]) {
+          return false;
+        }
+        entries[key] = { value, expiresAt: expiresAt(ttlSeconds) };
+        return true;
+      });
+    },
+    async delete(key) {
+      await update((entries) => {
+        delete entries[key];
+      });
+    },
+    async increment(key, amount, ttlSeconds) {
+      return update((entries) => {
+        const sum = (Number(entries[key]?.value) || 0) + amount;
+        entries[key] = { value: String(sum), expiresAt: expiresAt(ttlSeconds) };
+        return sum;
+      });
+    },
+    async append(key, values, ttlSeconds) {
+      await update((entries) => {
+        const list = [...readList(entries[key]?.value), ...values];
+        entries[key] = {
+          value: JSON.stringify(list),
+          expiresAt: expiresAt(ttlSeconds),
+        };
+      });
+    },
+    async list(key) {
+      return readList(await lookup(key));
+    },
+  };
+}
+
+// Lists are kept as JSON arrays
+function readList(value: string | undefined): string[] {
+  return value ? (JSON.parse(value) as string[]) : [];
+}
@@ -0,0 +1,44 @@
+import { getConfig } from "../config";
+import { createKVStore } from "./kv";
+import { createMemoryStore } from "./memory";
+import type { KeyValueStore } from "./store";
+
+export type { KeyValueStore } from "./store";
+export { createKVStore } from "./kv";
+export { createMemoryStore } from "./memory";
+
+// The file store is left out on purpose, importing it would pull Node's fs
+// into the edge bundle. Node entrypoints import "./file" and pass it to
+// setStore.
+
+let currentStore: KeyValueStore | undefined;
+
+// The store set with setStore, or the one configured by state.store
+export function getStore(): KeyValueStore {
+  return (currentStore ??= createConfiguredStore());
+}
+
+export function setStore(store: KeyValueStore | undefined): void {
+  currentStore = store;
+}
+
+function createConfiguredStore(): KeyValueStore {
+  switch (getConfig().state.store) {
+    case "memory":
+      return createMemoryStore();
+    case "kv": {
+      const url = process.env["KV_REST_API_URL"];
+      const token = process.env["KV_REST_API_TOKEN"];
+      if (!url || !token) {
+        throw new Error(
+          `The "kv" state store needs KV_REST_API_URL and KV_REST_API_TOKEN.`
+        );
+      }
+      return createKVStore({ url, token });
+    }
+    case "file":
+      throw new Error(
+        `The "file" state store only works in Node scripts, which call setStore.`
+      );
+  }
+}
@@ -0,0 +1,66 @@
+import type { KeyValueStore } from "./store";
+
+export interface KVStoreOptions {
+  // REST endpoint of Vercel KV or Upstash Redis
+  url: string;
+  token: string;
+}
+
+// Redis over the Upstash REST API, which Vercel KV uses as well
+export function createKVStore({ url, token }: KVStoreOptions): KeyValueStore {
+  async function command<Result>(args: Array<string | number>) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+    const body = (await response.json()) as { result?: Result; error?: string };
+    if (!response.ok || body.error) {
+      throw new Error(
+        `KV command ${args[0]} failed: ${body.error ?? response.status}`
+      );
+    }
+    return body.result;
+  }
+
+  return {
+    async get(key) {
+      return (await command<string | null>(["GET", key])) ?? undefined;
+    },
+    async set(key, value, ttlSeconds) {
+      await command(["SET", key, value, "EX", ttlSeconds]);
+    },
+    async add(key, value, ttlSeconds) {
+      const result = await command<string | null>([
+        "SET",
+        key,
+        value,
+        "NX",
+        "EX",
+        ttlSeconds,
+      ]);
+      return result === "OK";
+    },
+    async delete(key) {
+      await command(["DEL", key]);
+    },
+    async increment(key, amount, ttlSeconds) {
+      const result = await command<string>(["INCRBYFLOAT", key, amount]);
+      await command(["EXPIRE", key, ttlSeconds]);
+      return Number(result);
+    },
+    async append(key, values, ttlSeconds) {
+      if (values.length === 0) {
+        return;
+      }
+      await command(["RPUSH", key, ...values]);
+      await command(["EXPIRE", key, ttlSeconds]);
+    },
+    async list(key) {
+      return (await command<string[]>(["LRANGE", key, 0, -1])) ?? [];
+    },
+  };
+}
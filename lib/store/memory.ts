@@ -0,0 +1,55 @@
+import type { KeyValueStore } from "./store";
+
+// Lives as long as the function instance, enough for retries that reach
+// the same instance and for local development
+export function createMemoryStore(): KeyValueStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  const get = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  };
+
+  const set = (key: string, value: string, ttlSeconds: number) => {
+    entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  };
+
+  return {
+    async get(key) {
+      return get(key);
+    },
+    async set(key, value, ttlSeconds) {
+      set(key, value, ttlSeconds);
+    },
+    async add(key, value, ttlSeconds) {
+      if (get(key) !== undefined) {
+        return false;
+      }
+      set(key, value, ttlSeconds);
+      return true;
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async increment(key, amount, ttlSeconds) {
+      const sum = (Number(get(key)) || 0) + amount;
+      set(key, String(sum), ttlSeconds);
+      return sum;
+    },
+    async append(key, values, ttlSeconds) {
+      set(key, JSON.stringify([...readList(get(key)), ...values]), ttlSeconds);
+    },
+    async list(key) {
+      return readList(get(key));
+    },
+  };
+}
+
+// Lists are kept as JSON arrays
+function readList(value: string | undefined): string[] {
+  return value ? (JSON.parse(value) as string[]) : [];
+}
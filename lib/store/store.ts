@@ -0,0 +1,20 @@
+// "file" only works in the Node scripts, the edge function has no file
+// system
+export const STATE_STORES = ["memory", "kv", "file"] as const;
+export type StateStoreName = (typeof STATE_STORES)[number];
+
+// Small key-value store for state shared between webhook deliveries
+export interface KeyValueStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  // Stores the value unless the key exists, returns whether it was stored
+  add(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Atomically adds to the number in the key, 0 if it doesn't exist, and
+  // returns the sum
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+  // Atomically appends the values to the list in the key
+  append(key: string, values: string[], ttlSeconds: number): Promise<void>;
+  // The values appended to the key, empty if it doesn't exist
+  list(key: string): Promise<string[]>;
+}
@@ -0,0 +1,295 @@
+import type { Label } from "./types";
+
+export interface TaxonomyOptions {
+  // Minimum similarity (0 to 1) for a generated tag to be matched to an
+  // existing label instead of creating a new one
+  similarity: number;
+  // New labels created per article at most, further new tags are dropped
+  maxNewLabels: number;
+  // If not empty, only these labels may be applied
+  allow: string[];
+  // Labels that are never applied
+  deny: string[];
+}
+
+export interface ResolvedTags {
+  // Existing labels (with id) and labels to create (without)
+  labels: Partial<Label>[];
+  // Generated names that were matched to a differently named label
+  matched: Array<{ tag: string; label: string; similarity: number }>;
+  dropped: Array<{ tag: string; reason: string }>;
+}
+
+export interface MergeSuggestion {
+  // The label to keep, the one that sorts first
+  keep: string;
+  merge: string[];
+  similarity: number;
+}
+
+// Words that don't change the topic of a tag, "Ethics of AI" is "AI Ethics"
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "for",
+  "in",
+  "of",
+  "on",
+  "the",
+  "to",
+  "with",
+]);
+
+export function normalizeLabelName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// Words that end in s without being a plural, "News" isn't "New"
+const SINGULAR_S_WORDS = new Set([
+  "arts",
+  "chaos",
+  "lens",
+  "means",
+  "news",
+  "series",
+  "species",
+]);
+
+// Singular of an English plural, a few rules instead of a full stemmer as
+// tags are mostly nouns
+function singular(word: string): string {
+  if (
+    word.length <= 3 ||
+    SINGULAR_S_WORDS.has(word) ||
+    // Physics, politics, economics
+    word.endsWith("ics") ||
+    /(ss|us|is)$/.test(word)
+  ) {
+    return word;
+  }
+  if (word.endsWith("ies") && word.length > 4) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(ch|sh|ss|x|z)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  return word.endsWith("s") ? word.slice(0, -1) : word;
+}
+
+// Lowercase singular words without stop words and punctuation, sorted so
+// word order doesn't matter
+export function labelTokens(name: string): string[] {
+  return [
+    ...new Set(
+      name
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word && !STOP_WORDS.has(word))
+        .map(singular)
+    ),
+  ].sort();
+}
+
+// Similarity of two label names from 0 to 1: the words are paired up, each
+// at most once and the most similar first, and the pairs' similarities
+// averaged over all words. Reordered words and typos match, a word without
+// a partner counts as 0.
+export function labelSimilarity(a: string, b: string): number {
+  const tokensA = labelTokens(a);
+  const tokensB = labelTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return normalizeLabelName(a).toLowerCase() ===
+      normalizeLabelName(b).toLowerCase()
+      ? 1
+      : 0;
+  }
+  // "Java Script" is "JavaScript"
+  if (tokensA.join("") === tokensB.join("")) {
+    return 1;
+  }
+
+  const pairs = tokensA
+    .flatMap((wordA, indexA) =>
+      tokensB.map((wordB, indexB) => ({
+        indexA,
+        indexB,
+        similarity: wordSimilarity(wordA, wordB),
+      }))
+    )
+    .filter(({ similarity }) => similarity > 0)
+    .sort((x, y) => y.similarity - x.similarity);
+  const pairedA = new Set<number>();
+  const pairedB = new Set<number>();
+  let total = 0;
+  for (const { indexA, indexB, similarity } of pairs) {
+    if (!pairedA.has(indexA) && !pairedB.has(indexB)) {
+      pairedA.add(indexA);
+      pairedB.add(indexB);
+      total += similarity;
+    }
+  }
+  return (2 * total) / (tokensA.length + tokensB.length);
+}
+
+// Maps generated tags onto the account's labels, applying the allow and
+// deny lists and the cap on new labels
+export function resolveTags(
+  tags: Partial<Label>[],
+  allLabels: Label[],
+  options: TaxonomyOptions,
+  // Labels the taxonomy doesn't apply to, like trigger labels
+  isReserved: (name: string) => boolean = () => false
+): ResolvedTags {
+  const result: ResolvedTags = { labels: [], matched: [], dropped: [] };
+  const candidates = allLabels.filter(({ name }) => !isReserved(name));
+  const seen = new Set<string>();
+  let created = 0;
+
+  for (const tag of tags) {
+    const name = normalizeLabelName(tag.name ?? "");
+    if (!name) {
+      continue;
+    }
+    if (isReserved(name)) {
+      result.dropped.push({ tag: name, reason: "reserved label" });
+      continue;
+    }
+
+    const match = findClosestLabel(name, candidates, options.similarity);
+    const label = match?.label ?? { ...tag, name };
+    const key = label.name!.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+
+    if (matchesList(label.name!, options.deny)) {
+      result.dropped.push({ tag: name, reason: "on the deny list" });
+      continue;
+    }
+    if (options.allow.length > 0 && !matchesList(label.name!, options.allow)) {
+      result.dropped.push({ tag: name, reason: "not on the allow list" });
+      continue;
+    }
+    if (!match && created >= options.maxNewLabels) {
+      result.dropped.push({
+        tag: name,
+        reason: `more than ${options.maxNewLabels} new labels`,
+      });
+      continue;
+    }
+
+    if (match && match.label.name !== name) {
+      result.matched.push({
+        tag: name,
+        label: match.label.name,
+        similarity: match.similarity,
+      });
+    }
+    if (!match) {
+      created++;
+    }
+    seen.add(key);
+    result.labels.push(label);
+  }
+
+  return result;
+}
+
+// Groups of labels in the account that look like the same topic
+export function suggestLabelMerges(
+  labels: Label[],
+  similarity: number
+): MergeSuggestion[] {
+  const names = [...new Set(labels.map(({ name }) => name))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+  const grouped = new Set<string>();
+  const suggestions: MergeSuggestion[] = [];
+
+  for (const [index, keep] of names.entries()) {
+    if (grouped.has(keep)) {
+      continue;
+    }
+    const merge: string[] = [];
+    let lowest = 1;
+    for (const other of names.slice(index + 1)) {
+      const score = labelSimilarity(keep, other);
+      if (!grouped.has(other) && score >= similarity) {
+        merge.push(other);
+        grouped.add(other);
+        lowest = Math.min(lowest, score);
+      }
+    }
+    if (merge.length > 0) {
+      suggestions.push({ keep, merge, similarity: round(lowest) });
+    }
+  }
+
+  return suggestions.sort((a, b) => b.similarity - a.similarity);
+}
+
+function findClosestLabel(
+  name: string,
+  labels: Label[],
+  threshold: number
+): { label: Label; similarity: number } | undefined {
+  let best: { label: Label; similarity: number } | undefined;
+  for (const label of labels) {
+    const similarity = labelSimilarity(name, label.name);
+    if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+      best = { label, similarity: round(similarity) };
+    }
+  }
+  return best;
+}
+
+// Entries are label names, case-insensitive, with * as wildcard
+function matchesList(name: string, list: string[]): boolean {
+  return list.some((entry) =>
+    new RegExp(
+      `^${entry
+        .split("*")
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*")}$`,
+      "i"
+    ).test(name)
+  );
+}
+
+const MIN_TYPO_LENGTH = 6;
+
+// Words match exactly, or if one is a typo of the other: a letter missing,
+// added or swapped with its neighbour. A changed letter isn't a typo, it
+// turns "Painting" into "Printing". Short words only match exactly, a
+// single letter changes their meaning too easily.
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (Math.min(a.length, b.length) < MIN_TYPO_LENGTH || !isTypo(a, b)) {
+    return 0;
+  }
+  return 1 - 1 / Math.max(a.length, b.length);
+}
+
+function isTypo(a: string, b: string): boolean {
+  if (a.length === b.length) {
+    const index = [...a].findIndex((char, i) => char !== b[i]);
+    return (
+      a[index] === b[index + 1] &&
+      a[index + 1] === b[index] &&
+      a.slice(index + 2) === b.slice(index + 2)
+    );
+  }
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (longer.length - shorter.length !== 1) {
+    return false;
+  }
+  const index = [...shorter].findIndex((char, i) => char !== longer[i]);
+  return index === -1 || shorter.slice(index) === longer.slice(index + 1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,96 @@
+import type { ChatMessage } from "./llm";
+import { readerNoteText } from "./notebook";
+import { formatReaderHighlights } from "./prompts";
+import type { Article } from "./types";
+
+// Label descriptions using {{variables}} are templates that define the
+// whole prompt, e.g.
+//
+//   {{#system}}You are an editor for {{language}} texts.{{/system}}
+//   Write three questions about "{{title}}" by {{author}}:
+//   {{content}}
+//
+// Text inside {{#system}}…{{/system}} becomes the system message, the rest
+// the user message.
+
+const TAG = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+const SYSTEM_BLOCK = /\{\{\s*#system\s*\}\}([\s\S]*?)\{\{\s*\/system\s*\}\}/g;
+
+export const TEMPLATE_VARIABLES = [
+  "title",
+  "author",
+  "url",
+  "content",
+  "note",
+  "highlights",
+  "labels",
+  "language",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export function isPromptTemplate(text: string): boolean {
+  return new RegExp(TAG.source).test(text);
+}
+
+export function getTemplateVariables(
+  article: Article
+): Record<TemplateVariable, string> {
+  return {
+    title: article.title,
+    author: article.author ?? "",
+    url: article.url,
+    content: article.content,
+    note: readerNoteText(article.existingNote?.annotation),
+    highlights: formatReaderHighlights(article),
+    labels: article.labels.map(({ name }) => name).join(", "),
+    language: article.language ?? "",
+  };
+}
+
+// Renders the template into chat messages. Unknown variables and unclosed
+// blocks are errors, so typos don't silently end up in the prompt.
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<TemplateVariable, string>
+): ChatMessage[] {
+  const system: string[] = [];
+  const user = template.replace(SYSTEM_BLOCK, (_, content: string) => {
+    system.push(content);
+    return "";
+  });
+
+  const messages: ChatMessage[] = [];
+  if (system.length > 0) {
+    messages.push({
+      role: "system",
+      content: renderVariables(system.join("\n\n"), variables),
+    });
+  }
+  messages.push({ role: "user", content: renderVariables(user, variables) });
+  return messages;
+}
+
+function renderVariables(
+  text: string,
+  variables: Record<TemplateVariable, string>
+): string {
+  return text
+    .replace(TAG, (tag, block: string, name: string) => {
+      if (block) {
+        throw new Error(
+          `Prompt template has an unmatched "${tag}". Only {{#system}}…{{/system}} blocks are supported.`
+        );
+      }
+      if (!TEMPLATE_VARIABLES.includes(name as TemplateVariable)) {
+        throw new Error(
+          `Unknown prompt template variable "${tag}". Use one of ${TEMPLATE_VARIABLES.map(
+            (variable) => `{{${variable}}}`
+          ).join(", ")}.`
+        );
+      }
+      return variables[name as TemplateVariable];
+    })
+    .trim();
+}
@@ -0,0 +1,132 @@
+import type { Article } from "./types";
+
+export type TranslationMode = "summary" | "full";
+
+export const TRANSLATION_MODES: readonly TranslationMode[] = [
+  "summary",
+  "full",
+];
+
+export interface TranslationOptions {
+  // Used by `do:translate`, `do:translate:<language>` overrides it
+  targetLanguage: string;
+  // A summary in the target language or the whole article translated
+  mode: TranslationMode;
+}
+
+export interface Language {
+  // English name, the way Omnivore reports the article language
+  name: string;
+  // ISO 639-1, undefined for languages missing from the table
+  code: string | undefined;
+  rtl: boolean;
+}
+
+// Code, English name and native name. Other languages are passed to the
+// model by the name given in the label.
+const LANGUAGES: Array<[string, string, string]> = [
+  ["ar", "Arabic", "العربية"],
+  ["cs", "Czech", "Čeština"],
+  ["da", "Danish", "Dansk"],
+  ["de", "German", "Deutsch"],
+  ["el", "Greek", "Ελληνικά"],
+  ["en", "English", "English"],
+  ["es", "Spanish", "Español"],
+  ["fa", "Persian", "فارسی"],
+  ["fi", "Finnish", "Suomi"],
+  ["fr", "French", "Français"],
+  ["he", "Hebrew", "עברית"],
+  ["hi", "Hindi", "हिन्दी"],
+  ["id", "Indonesian", "Bahasa Indonesia"],
+  ["it", "Italian", "Italiano"],
+  ["ja", "Japanese", "日本語"],
+  ["ko", "Korean", "한국어"],
+  ["nl", "Dutch", "Nederlands"],
+  ["no", "Norwegian", "Norsk"],
+  ["pl", "Polish", "Polski"],
+  ["pt", "Portuguese", "Português"],
+  ["ro", "Romanian", "Română"],
+  ["ru", "Russian", "Русский"],
+  ["sv", "Swedish", "Svenska"],
+  ["tr", "Turkish", "Türkçe"],
+  ["uk", "Ukrainian", "Українська"],
+  ["ur", "Urdu", "اردو"],
+  ["vi", "Vietnamese", "Tiếng Việt"],
+  ["zh", "Chinese", "中文"],
+];
+
+const RTL_LANGUAGES = new Set(["ar", "fa", "he", "ur"]);
+
+// Markers at the start of a markdown line that stay in front of the
+// direction mark: list items, quotes and headings
+const LINE_MARKERS = /^(\s*(?:[-*+]|\d+[.)]|>|#{1,6})\s+)*/;
+
+// Matches codes with region ("pt-BR"), English and native names, in any
+// case. Undefined for empty values and Omnivore's "Unknown".
+export function findLanguage(
+  value: string | null | undefined
+): Language | undefined {
+  const key = value?.trim().toLowerCase().replace(/_/g, "-") ?? "";
+  if (!key || key === "unknown") {
+    return undefined;
+  }
+
+  const entry = LANGUAGES.find(
+    ([code, name, native]) =>
+      key === code ||
+      key.startsWith(`${code}-`) ||
+      key === name.toLowerCase() ||
+      key === native.toLowerCase()
+  );
+  if (!entry) {
+    return undefined;
+  }
+  const [code, name] = entry;
+  return { name, code, rtl: RTL_LANGUAGES.has(code) };
+}
+
+// Like findLanguage, but keeps unknown names as given, e.g. "Klingon"
+export function resolveLanguage(value: string): Language {
+  return (
+    findLanguage(value) ?? {
+      name: value.charAt(0).toUpperCase() + value.slice(1),
+      code: undefined,
+      rtl: false,
+    }
+  );
+}
+
+// Omnivore's reported direction if there is one, otherwise the direction
+// of the article's language, e.g. for self-hosted instances that don't
+// report it
+export function isRightToLeft(
+  article: Pick<Article, "language" | "directionality">
+): boolean {
+  if (article.directionality) {
+    return article.directionality === "RTL";
+  }
+  return findLanguage(article.language)?.rtl ?? false;
+}
+
+export function isSameLanguage(a: Language, b: Language): boolean {
+  return a.code && b.code
+    ? a.code === b.code
+    : a.name.toLowerCase() === b.name.toLowerCase();
+}
+
+// The notebook has no direction setting, apps pick it per paragraph from
+// the first strong character. A right-to-left or left-to-right mark at the
+// start of every line, after markdown markers, sets it explicitly.
+export function setTextDirection(text: string, rtl: boolean): string {
+  const mark = rtl ? "\u200F" : "\u200E";
+  return text
+    .split("\n")
+    .map((line) => {
+      if (!line.trim()) {
+        return line;
+      }
+      const [prefix] = line.match(LINE_MARKERS) ?? [""];
+      return `${prefix}${mark}${line.slice(prefix.length)}`;
+    })
+    .join("\n");
+}
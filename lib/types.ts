@@ -0,0 +1,66 @@
+import type { CompletionOptions } from "./llm";
+
+export interface Label {
+  id?: string;
+  name: string;
+  color?: string;
+  description: string;
+}
+
+export interface LabelAction {
+  label: string;
+  replacedLabel: string;
+  processLabel: string;
+  action: string;
+  labelData: Label | undefined;
+  // Label description or the action's default prompt
+  instruction: string;
+  prompts: string[];
+  description: string | undefined;
+  // Model settings from the description's front matter
+  completionOptions: CompletionOptions;
+  // Invalid front-matter settings, the action fails with them
+  settingsErrors: string[];
+}
+
+export interface Article {
+  id: string;
+  content: string;
+  title: string;
+  author: string | null;
+  url: string;
+  // Language of the article as detected by Omnivore, e.g. "English"
+  language: string | null;
+  // Text direction as reported by Omnivore, null if it didn't report one
+  directionality: "LTR" | "RTL" | null;
+  labels: Label[];
+  highlights: ArticleHighlight[];
+  existingNote: ArticleHighlight | undefined;
+}
+
+// Highlights as loaded with the article
+export interface ArticleHighlight {
+  id: string;
+  type: string;
+  quote: string | null;
+  annotation: string | null;
+}
+
+export interface Highlight {
+  id: string;
+  type: "NOTE" | "HIGHLIGHT" | "REDACTION" | string;
+  shortId: string;
+  quote: string | null;
+  prefix: string | null;
+  suffix: string | null;
+  patch: string | null;
+  color: string | null;
+  annotation: string | null;
+  createdByMe: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+  sharedAt: string | null;
+  highlightPositionPercent: number | null;
+  highlightPositionAnchorIndex: number | null;
+  labels: Label[] | null;
+}
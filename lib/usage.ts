@@ -0,0 +1,220 @@
+import type { CompletionUsage } from "./llm";
+import type { KeyValueStore } from "./store";
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface UsageOptions {
+  // Appends the tokens and estimated cost to the note sections of actions
+  noteFooter: boolean;
+  // Estimated cost in USD after which work is refused, 0 for no limit
+  dailyBudget: number;
+  monthlyBudget: number;
+  // Keyed by model name, the longest matching prefix applies, so "gpt-4o"
+  // covers "gpt-4o-2024-08-06"
+  prices: Record<string, ModelPrice>;
+}
+
+export interface ModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated in USD, undefined if the model has no price
+  cost: number | undefined;
+}
+
+// One line of the usage log, per action and model
+export interface UsageEntry extends ModelUsage {
+  requestId: string;
+  articleId: string;
+  // Trigger label, or "highlight" for highlight replies
+  label: string;
+  action: string;
+  createdAt: string;
+}
+
+export interface UsageTotal {
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated in USD, completions of models without price count as 0
+  cost: number;
+}
+
+// Adds up the completions of one action
+export interface UsageMeter {
+  add(model: string, usage: CompletionUsage | undefined): void;
+  models(): ModelUsage[];
+}
+
+// Long enough to look back at last month's log
+const LOG_TTL = 62 * 24 * 60 * 60;
+
+export function createUsageMeter(
+  prices: Record<string, ModelPrice>
+): UsageMeter {
+  const tokens = new Map<
+    string,
+    { promptTokens: number; completionTokens: number }
+  >();
+
+  return {
+    add(model, usage) {
+      const total = tokens.get(model) ?? {
+        promptTokens: 0,
+        completionTokens: 0,
+      };
+      total.promptTokens += usage?.promptTokens ?? 0;
+      total.completionTokens += usage?.completionTokens ?? 0;
+      tokens.set(model, total);
+    },
+    models: () =>
+      [...tokens].map(([model, total]) => ({
+        model,
+        ...total,
+        cost: estimateCost(model, total, prices),
+      })),
+  };
+}
+
+export function estimateCost(
+  model: string,
+  { promptTokens, completionTokens }: CompletionUsage,
+  prices: Record<string, ModelPrice>
+): number | undefined {
+  const key = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (key === undefined) {
+    return undefined;
+  }
+  const price = prices[key];
+  return (
+    (promptTokens * price.prompt + completionTokens * price.completion) /
+    1_000_000
+  );
+}
+
+// Appends the entries to the log of the day and adds their cost to the
+// totals the budgets are checked against. Both are atomic in the store, so
+// concurrent deliveries and workers don't lose entries.
+export async function recordUsage(
+  store: KeyValueStore,
+  entries: UsageEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const now = new Date();
+  await store.append(
+    `usage:log:${day(now)}`,
+    entries.map((entry) => JSON.stringify(entry)),
+    LOG_TTL
+  );
+
+  const cost = entries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+  if (cost > 0) {
+    for (const key of [`usage:cost:${day(now)}`, `usage:cost:${month(now)}`]) {
+      await store.increment(key, cost, LOG_TTL);
+    }
+  }
+}
+
+// The usage log of a day in UTC, e.g. "2024-03-02"
+export async function readUsageLog(
+  store: KeyValueStore,
+  date: string
+): Promise<UsageEntry[]> {
+  return (await store.list(`usage:log:${date}`)).map(
+    (line) => JSON.parse(line) as UsageEntry
+  );
+}
+
+// Totals of the log entries by action and by model
+export function summarizeUsage(entries: UsageEntry[]): {
+  total: UsageTotal;
+  actions: Record<string, UsageTotal>;
+  models: Record<string, UsageTotal>;
+} {
+  const summary = {
+    total: emptyTotal(),
+    actions: {} as Record<string, UsageTotal>,
+    models: {} as Record<string, UsageTotal>,
+  };
+  for (const entry of entries) {
+    for (const total of [
+      summary.total,
+      (summary.actions[entry.action] ??= emptyTotal()),
+      (summary.models[entry.model] ??= emptyTotal()),
+    ]) {
+      total.promptTokens += entry.promptTokens;
+      total.completionTokens += entry.completionTokens;
+      total.cost += entry.cost ?? 0;
+    }
+  }
+  return summary;
+}
+
+// Returns why no more work may be done, or undefined within the budgets
+export async function getBudgetError(
+  store: KeyValueStore,
+  { dailyBudget, monthlyBudget }: UsageOptions
+): Promise<string | undefined> {
+  const now = new Date();
+  const budgets = [
+    { name: "daily", budget: dailyBudget, key: `usage:cost:${day(now)}` },
+    {
+      name: "monthly",
+      budget: monthlyBudget,
+      key: `usage:cost:${month(now)}`,
+    },
+  ];
+  for (const { name, budget, key } of budgets) {
+    if (budget <= 0) {
+      continue;
+    }
+    const spent = Number(await store.get(key)) || 0;
+    if (spent >= budget) {
+      return `The ${name} budget of $${budget} is used up ($${spent.toFixed(
+        2
+      )} spent), try again later.`;
+    }
+  }
+  return undefined;
+}
+
+// e.g. "*Usage: 1,234 prompt and 210 completion tokens of gpt-4o, about
+// $0.0052*"
+export function formatUsageFooter(models: ModelUsage[]): string {
+  const cost = models.every((model) => model.cost !== undefined)
+    ? `, about $${models
+        .reduce((sum, model) => sum + (model.cost ?? 0), 0)
+        .toFixed(4)}`
+    : "";
+  return `*Usage: ${models
+    .map(
+      ({ model, promptTokens, completionTokens }) =>
+        `${formatNumber(promptTokens)} prompt and ${formatNumber(
+          completionTokens
+        )} completion tokens of ${model}`
+    )
+    .join(", ")}${cost}*`;
+}
+
+function emptyTotal(): UsageTotal {
+  return { promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function day(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function month(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
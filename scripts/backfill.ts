@@ -0,0 +1,301 @@
+// Runs actions on library items that already exist, found by an Omnivore
+// search query.
+//
+//   npm run backfill -- --query "in:library -label:did:*" --actions summary,tags
+//
+// Options:
+//   --query         Omnivore search query, e.g. "label:reading saved:2024-01-01..*"
+//   --actions       comma-separated actions to run, e.g. "summary,tags"
+//   --concurrency   articles processed at the same time (default 2)
+//   --rate          articles started per minute at most (default 20)
+//   --limit         stop after this many articles
+//   --page-size     search results fetched per request (default 20)
+//   --state         progress file to resume from (default .data/backfill.json)
+//   --restart       ignore the progress file and start from the beginning
+//   --dry-run       only report what would be written, progress isn't saved
+//
+// All results are collected before any is processed: a query like
+// `-label:did:*` drops processed articles from its results, so paging while
+// processing would skip as many unprocessed ones. Progress is saved after
+// every page size of articles, an interrupted backfill leaves out the
+// articles it already processed when started again.
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { parseArgs } from "util";
+import { v4 as uuidv4 } from "uuid";
+import type { ActionReport } from "../lib/actions";
+import { getConfig } from "../lib/config";
+import type { OmnivoreClient, SearchItem } from "../lib/omnivore";
+import {
+  getOmnivoreClient,
+  previewArticle,
+  processArticle,
+} from "../lib/pipeline";
+import { getDoneLabel } from "../lib/prompts";
+import { runScript, setupScript } from "./setup";
+
+const DEFAULT_STATE_FILE = ".data/backfill.json";
+
+interface BackfillState {
+  query: string;
+  actions: string[];
+  // Articles processed so far, whether done, failed or skipped
+  processedIds: string[];
+  finished: boolean;
+  total: number | undefined;
+  processed: number;
+  done: number;
+  failed: number;
+  skipped: number;
+  failures: Array<{ id: string; title: string; message: string }>;
+  updatedAt: string;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      query: { type: "string" },
+      actions: { type: "string" },
+      concurrency: { type: "string", default: "2" },
+      rate: { type: "string", default: "20" },
+      limit: { type: "string" },
+      "page-size": { type: "string", default: "20" },
+      state: { type: "string", default: DEFAULT_STATE_FILE },
+      restart: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const query = values.query;
+  const actions = (values.actions ?? "")
+    .split(",")
+    .map((action) => action.trim())
+    .filter(Boolean);
+  if (!query || actions.length === 0) {
+    throw new Error(
+      `Usage: npm run backfill -- --query "<search query>" --actions summary,tags`
+    );
+  }
+  const concurrency = readNumber(values.concurrency, "concurrency");
+  const rate = readNumber(values.rate, "rate");
+  const pageSize = readNumber(values["page-size"], "page-size");
+  const limit = values.limit ? readNumber(values.limit, "limit") : Infinity;
+  const statePath = values.state ?? DEFAULT_STATE_FILE;
+  const dryRun = values["dry-run"] ?? false;
+
+  setupScript();
+  const { triggerLabel } = getConfig();
+  const omnivore = getOmnivoreClient();
+
+  const state = values.restart
+    ? createState(query, actions)
+    : await loadState(statePath, query, actions);
+  if (state.finished) {
+    console.log(
+      `Backfill for "${query}" already finished, use --restart to run it again.`
+    );
+    return;
+  }
+  if (state.processed > 0) {
+    console.log(`Resuming after ${state.processed} articles`);
+  }
+
+  const waitForTurn = createRateLimiter(rate);
+  const labels = actions.map((action) => `${triggerLabel}:${action}`);
+
+  async function processItem(item: SearchItem): Promise<void> {
+    const itemLabels = item.labels.map(({ name }) => name);
+    const pending = labels.filter(
+      (label) => !itemLabels.includes(getDoneLabel(label, triggerLabel))
+    );
+
+    let results: ActionReport[] = [];
+    if (pending.length > 0) {
+      await waitForTurn();
+      const options = {
+        requestId: uuidv4(),
+        articleId: item.id,
+        labels: pending,
+        annotateLabel: triggerLabel,
+      };
+      try {
+        results = dryRun
+          ? (await previewArticle(options)).results
+          : await processArticle(options);
+      } catch (error) {
+        results = pending.map((label) => ({
+          label,
+          action: "",
+          status: "failed",
+          message: (error as Error).message,
+        }));
+      }
+    }
+
+    const failed = results.filter(({ status }) => status === "failed");
+    state.processed++;
+    state.processedIds.push(item.id);
+    if (pending.length === 0) {
+      state.skipped++;
+    } else if (failed.length > 0) {
+      state.failed++;
+      state.failures.push({
+        id: item.id,
+        title: item.title,
+        message: failed
+          .map(({ label, message }) => `${label}: ${message}`)
+          .join("; "),
+      });
+    } else {
+      state.done++;
+    }
+
+    const outcome =
+      pending.length === 0 ? "skipped" : failed.length > 0 ? "failed" : "done";
+    console.log(
+      `[${state.processed}${state.total ? `/${state.total}` : ""}] ${outcome} "${
+        item.title
+      }"${results
+        .map(({ label, status }) => ` ${label}: ${status}`)
+        .join(",")}`
+    );
+  }
+
+  const processedIds = new Set(state.processedIds);
+  const remaining = (await searchAll(omnivore, query, pageSize)).filter(
+    ({ id }) => !processedIds.has(id)
+  );
+  // Resumed runs count what's left, articles processed before don't count
+  // towards --limit either
+  state.total = state.processed + remaining.length;
+  const items = remaining.slice(0, limit);
+
+  for (let start = 0; start < items.length; start += pageSize) {
+    await forEachConcurrently(
+      items.slice(start, start + pageSize),
+      concurrency,
+      processItem
+    );
+    state.finished = state.processed === state.total;
+    if (!dryRun) {
+      await saveState(statePath, state);
+    }
+  }
+  // Nothing was left to process
+  if (items.length === 0 && !dryRun) {
+    state.finished = true;
+    await saveState(statePath, state);
+  }
+
+  console.log(
+    [
+      `Backfill ${state.finished ? "finished" : "paused"}${
+        dryRun ? " (dry run)" : ""
+      }:`,
+      `${state.processed} articles, ${state.done} done, ${state.failed} failed, ${state.skipped} skipped.`,
+      ...state.failures.map(
+        ({ title, message }) => `  failed "${title}": ${message}`
+      ),
+      ...(dryRun ? [] : [`Progress saved to ${statePath}.`]),
+    ].join("\n")
+  );
+}
+
+function createState(query: string, actions: string[]): BackfillState {
+  return {
+    query,
+    actions,
+    processedIds: [],
+    finished: false,
+    total: undefined,
+    processed: 0,
+    done: 0,
+    failed: 0,
+    skipped: 0,
+    failures: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Progress of another query or other actions isn't resumed
+async function loadState(
+  path: string,
+  query: string,
+  actions: string[]
+): Promise<BackfillState> {
+  let state: BackfillState;
+  try {
+    state = JSON.parse(await readFile(path, "utf8")) as BackfillState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    return createState(query, actions);
+  }
+  return state.query === query && state.actions.join() === actions.join()
+    ? state
+    : createState(query, actions);
+}
+
+async function saveState(path: string, state: BackfillState): Promise<void> {
+  state.updatedAt = new Date().toISOString();
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(state, null, 2));
+}
+
+async function searchAll(
+  omnivore: OmnivoreClient,
+  query: string,
+  pageSize: number
+): Promise<SearchItem[]> {
+  const items: SearchItem[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await omnivore.search(query, pageSize, cursor);
+    items.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+  console.log(`Found ${items.length} articles for "${query}"`);
+  return items;
+}
+
+// Spaces calls evenly, so at most perMinute of them start in a minute
+function createRateLimiter(perMinute: number): () => Promise<void> {
+  const interval = 60_000 / perMinute;
+  let next = 0;
+  return async () => {
+    const now = Date.now();
+    const start = Math.max(now, next);
+    next = start + interval;
+    if (start > now) {
+      await new Promise((resolve) => setTimeout(resolve, start - now));
+    }
+  };
+}
+
+async function forEachConcurrently<Item>(
+  items: Item[],
+  concurrency: number,
+  run: (item: Item) => Promise<void>
+): Promise<void> {
+  let index = 0;
+  const workers = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (index < items.length) {
+        await run(items[index++]);
+      }
+    }
+  );
+  await Promise.all(workers);
+}
+
+function readNumber(value: string | undefined, option: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${option} must be a positive number, got "${value}".`);
+  }
+  return number;
+}
+
+runScript(main);
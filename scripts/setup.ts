@@ -0,0 +1,21 @@
+import { getConfig } from "../lib/config";
+import { setStore } from "../lib/store";
+import { createFileStore } from "../lib/store/file";
+
+// Shared by the Node scripts: fails early on an invalid configuration and
+// keeps the state in state.file unless state.store is "kv". The default
+// memory store would be lost when the script ends.
+export function setupScript(): void {
+  const { state } = getConfig();
+
+  if (state.store !== "kv") {
+    setStore(createFileStore(state.file));
+  }
+}
+
+export function runScript(main: () => Promise<void>): void {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
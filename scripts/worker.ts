@@ -0,0 +1,42 @@
+// Drains the job queue outside of the edge function.
+//
+//   npm run worker            keeps polling for due jobs
+//   npm run worker -- --once  drains the queue once and exits
+//
+// The "file" queue, used here unless jobs.queue names another one, keeps
+// jobs in jobs.file. Other queues are resolved like in the webhook, e.g.
+// "store" with the "kv" state store to work off the jobs the deployed
+// webhook enqueued.
+import { getConfig } from "../lib/config";
+import { drainQueue, getDrainOptions, getQueue, setQueue } from "../lib/queue";
+import { createFileQueue } from "../lib/queue/file";
+import { runScript, setupScript } from "./setup";
+
+async function main() {
+  const once = process.argv.includes("--once");
+  setupScript();
+
+  // The default "inline" has no jobs to work off
+  const { jobs } = getConfig();
+  if (jobs.queue === "inline" || jobs.queue === "file") {
+    setQueue(createFileQueue(jobs.file));
+  }
+
+  const queue = getQueue()!;
+  const pollInterval = jobs.pollInterval * 1000;
+
+  for (;;) {
+    const summary = await drainQueue(queue, getDrainOptions());
+    if (summary.done || summary.retried || summary.failed) {
+      console.log(
+        `Drained queue: ${summary.done} done, ${summary.retried} to retry, ${summary.failed} failed`
+      );
+    }
+    if (once) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+}
+
+runScript(main);
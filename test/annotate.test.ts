@@ -0,0 +1,981 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import configFile from "../config.json";
+import handler from "../api/annotate";
+import { loadConfig, setConfig } from "../lib/config";
+import { createFakeProvider, setProvider } from "../lib/llm";
+import type { FakeProvider } from "../lib/llm";
+import { createMemoryQueue, createStoreQueue, setQueue } from "../lib/queue";
+import { createMemoryStore, setStore } from "../lib/store";
+import type { ModelUsage } from "../lib/usage";
+import highlightCreated from "./fixtures/highlight-created.json";
+import labelAdded from "./fixtures/label-added.json";
+import library from "./fixtures/library.json";
+import pageCreated from "./fixtures/page-created.json";
+import { startFakeOmnivore } from "./omnivore";
+import type { FakeOmnivore } from "./omnivore";
+
+const ARTICLE_ID = library.articles[0].id;
+
+let omnivore: FakeOmnivore;
+let llm: FakeProvider;
+
+beforeEach(async () => {
+  omnivore = await startFakeOmnivore(library);
+  useProvider(createFakeProvider());
+  setConfig(loadConfig(configFile, { OMNIVORE_API_URL: omnivore.url }));
+  setStore(createMemoryStore());
+  setQueue(undefined);
+  for (const name of [
+    "WEBHOOK_SECRET",
+    "WEBHOOK_HMAC_SECRET",
+    "OMNIVORE_USER_ID",
+  ]) {
+    vi.stubEnv(name, "");
+  }
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  await omnivore.close();
+  setProvider(undefined);
+  setConfig(undefined);
+  setStore(undefined);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function useProvider(provider: FakeProvider) {
+  llm = provider;
+  setProvider(provider);
+}
+
+function webhook(payload: unknown, query = ""): Request {
+  return new Request(`http://localhost/api/annotate${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof payload === "string" ? payload : JSON.stringify(payload),
+  });
+}
+
+function labelPayload(...names: string[]) {
+  return {
+    ...labelAdded,
+    label: {
+      ...labelAdded.label,
+      labels: names.map((name, index) => ({
+        id: `webhook-label-${index}`,
+        name,
+        color: "#7CFF7B",
+      })),
+    },
+  };
+}
+
+function labelId(name: string): string | undefined {
+  return omnivore.labels.find((label) => label.name === name)?.id;
+}
+
+function setLabelDescription(name: string, description: string) {
+  omnivore.labels.find((label) => label.name === name)!.description =
+    description;
+}
+
+describe("LABEL_ADDED", () => {
+  it("writes the summary into the note and marks the label as done", async () => {
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      articleId: ARTICLE_ID,
+      results: [
+        {
+          label: "do:summary",
+          action: "summary",
+          status: "done",
+          labels: { added: ["did:summary"], removed: ["do:summary"] },
+        },
+      ],
+    });
+
+    expect(llm.requests).toHaveLength(1);
+    expect(omnivore.mutations).toEqual([
+      {
+        operation: "CreateHighlight",
+        variables: {
+          input: expect.objectContaining({
+            type: "NOTE",
+            articleId: ARTICLE_ID,
+            annotation: expect.stringMatching(
+              /^<!-- section: Summary -->\n## Summary\n\nFake completion for: /
+            ),
+          }),
+        },
+      },
+      {
+        operation: "CreateLabel",
+        variables: { input: { name: "did:summary", description: "" } },
+      },
+      {
+        operation: "SetLabels",
+        variables: {
+          input: { pageId: ARTICLE_ID, labelIds: [labelId("did:summary")] },
+        },
+      },
+    ]);
+  });
+
+  it("acknowledges a repeated delivery without running the action again", async () => {
+    await handler(webhook(labelAdded));
+    omnivore.mutations.length = 0;
+
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      results: [{ label: "do:summary", status: "skipped" }],
+    });
+    expect(llm.requests).toHaveLength(1);
+    expect(omnivore.mutations).toEqual([]);
+  });
+
+  it("updates the existing note instead of creating another one", async () => {
+    omnivore.articles.get(ARTICLE_ID)!.highlights.push({
+      id: "note-1",
+      type: "NOTE",
+      quote: null,
+      annotation: "My own thoughts.",
+    });
+
+    await handler(webhook(labelAdded));
+
+    expect(omnivore.mutations[0]).toEqual({
+      operation: "UpdateHighlight",
+      variables: {
+        input: {
+          highlightId: "note-1",
+          annotation: expect.stringMatching(
+            /^My own thoughts\.\n\n<!-- section: Summary -->\n## Summary\n\nFake completion for: /
+          ),
+        },
+      },
+    });
+  });
+
+  it("keeps the reader's text after the summary when replacing it", async () => {
+    omnivore.articles.get(ARTICLE_ID)!.highlights.push({
+      id: "note-1",
+      type: "NOTE",
+      quote: null,
+      annotation:
+        "My intro.\n\n<!-- section: Summary -->\n## Summary\n\nOld.\n<!-- /section: Summary -->\n\nMy follow-up thoughts.",
+    });
+
+    await handler(webhook(labelAdded));
+
+    expect(omnivore.mutations[0]).toMatchObject({
+      operation: "UpdateHighlight",
+      variables: {
+        input: {
+          annotation: expect.stringMatching(
+            /^My intro\.\n\n<!-- section: Summary -->\n## Summary\n\nFake completion for: [^]*\n<!-- \/section: Summary -->\n\nMy follow-up thoughts\.$/
+          ),
+        },
+      },
+    });
+  });
+
+  it("sends only the reader's own text of the note to the model", async () => {
+    omnivore.articles.get(ARTICLE_ID)!.highlights.push({
+      id: "note-1",
+      type: "NOTE",
+      quote: null,
+      annotation:
+        "My own thoughts.\n\n<!-- section: Summary -->\n## Summary\n\nAn older summary.\n<!-- /section: Summary -->\n\n## Questions\n\nWhy slow?",
+    });
+
+    await handler(webhook(labelAdded));
+
+    const prompt = llm.requests[0].messages[0].content;
+    expect(prompt).toContain(
+      "The reader's existing note on the article: My own thoughts.\n\n## Questions\n\nWhy slow?"
+    );
+    expect(prompt).not.toContain("An older summary.");
+  });
+
+  // The tags action swaps the trigger label in the same setLabels call
+  it("matches generated tags to existing labels and creates the new ones", async () => {
+    useProvider(
+      createFakeProvider(() =>
+        JSON.stringify({
+          tags: [
+            { name: "reading", description: "" },
+            { name: "Note taking", description: "Writing notes" },
+          ],
+        })
+      )
+    );
+    omnivore.articles.get(ARTICLE_ID)!.labelIds = [library.labels[1].id];
+
+    const response = await handler(webhook(labelPayload("do:tags")));
+
+    expect(await response.json()).toMatchObject({
+      results: [
+        {
+          label: "do:tags",
+          status: "done",
+          labels: {
+            added: ["Reading", "Note taking", "did:tags"],
+            removed: ["do:tags"],
+          },
+        },
+      ],
+    });
+    expect(omnivore.mutations).toEqual([
+      {
+        operation: "CreateLabel",
+        variables: {
+          input: { name: "Note taking", description: "Writing notes" },
+        },
+      },
+      {
+        operation: "CreateLabel",
+        variables: { input: { name: "did:tags", description: "" } },
+      },
+      {
+        operation: "SetLabels",
+        variables: {
+          input: {
+            pageId: ARTICLE_ID,
+            labelIds: [
+              library.labels[2].id,
+              labelId("Note taking"),
+              labelId("did:tags"),
+            ],
+          },
+        },
+      },
+    ]);
+  });
+
+  it("ignores the labels it set itself", async () => {
+    await handler(webhook(labelAdded));
+    omnivore.operations.length = 0;
+
+    const response = await handler(webhook(labelPayload("did:summary")));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      "Ignoring labels set by this function."
+    );
+    expect(omnivore.operations).toEqual([]);
+  });
+
+  it("reports the failure when the article doesn't exist", async () => {
+    const payload = {
+      ...labelAdded,
+      label: { ...labelAdded.label, pageId: "missing" },
+    };
+
+    const response = await handler(webhook(payload));
+
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe(
+      "Error processing Omnivore webhook: Article failed: NOT_FOUND"
+    );
+    expect(omnivore.mutations).toEqual([]);
+  });
+});
+
+describe("PAGE_CREATED", () => {
+  it("runs the default actions once the page is parsed", async () => {
+    omnivore.articles.get(ARTICLE_ID)!.labelIds = [];
+
+    const response = await handler(webhook(pageCreated));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      results: [{ label: "do:summary", status: "done" }],
+    });
+    expect(omnivore.mutations.map(({ operation }) => operation)).toEqual([
+      "CreateHighlight",
+      "CreateLabel",
+      "SetLabels",
+    ]);
+  });
+
+  it("uses the description of the default action's label in the account", async () => {
+    omnivore.articles.get(ARTICLE_ID)!.labelIds = [];
+    setLabelDescription(
+      "do:summary",
+      "---\nmodel: gpt-4o\n---\nList three takeaways."
+    );
+
+    await handler(webhook(pageCreated));
+
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0].options).toMatchObject({ model: "gpt-4o" });
+    expect(llm.requests[0].messages[0].content).toContain(
+      "List three takeaways."
+    );
+  });
+
+  it("skips pages that are still being parsed", async () => {
+    const payload = {
+      ...pageCreated,
+      page: { ...pageCreated.page, state: "PROCESSING" },
+    };
+
+    const response = await handler(webhook(payload));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("is not processed yet");
+    expect(omnivore.operations).toEqual([]);
+    expect(llm.requests).toEqual([]);
+  });
+
+  it("leaves out default actions that already ran", async () => {
+    const payload = {
+      ...pageCreated,
+      page: { ...pageCreated.page, labelNames: ["did:summary"] },
+    };
+
+    const response = await handler(webhook(payload));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      `No actions to run for page ${ARTICLE_ID}.`
+    );
+    expect(omnivore.operations).toEqual([]);
+  });
+});
+
+describe("do:highlight", () => {
+  it("creates highlights for the quotes found in the article", async () => {
+    useProvider(
+      createFakeProvider(() =>
+        JSON.stringify({
+          highlights: [
+            {
+              quote:
+                "Writing down a sentence or two about an article is the cheapest way to remember it.",
+              reason: "The practical advice",
+            },
+            { quote: "A quote the article doesn't have.", reason: "Made up" },
+          ],
+        })
+      )
+    );
+
+    const response = await handler(webhook(labelPayload("do:highlight")));
+
+    expect(await response.json()).toMatchObject({
+      results: [
+        {
+          label: "do:highlight",
+          status: "done",
+          message:
+            "Created 1 highlights, skipped 1 quotes not found in the article.",
+        },
+      ],
+    });
+    expect(omnivore.mutations[0]).toEqual({
+      operation: "CreateHighlight",
+      variables: {
+        input: expect.objectContaining({
+          type: "HIGHLIGHT",
+          articleId: ARTICLE_ID,
+          quote:
+            "Writing down a sentence or two about an article is the cheapest way to remember it.",
+          annotation: "The practical advice",
+        }),
+      },
+    });
+    expect(
+      omnivore.mutations.filter(
+        ({ operation }) => operation === "CreateHighlight"
+      )
+    ).toHaveLength(1);
+  });
+});
+
+describe("highlight replies", () => {
+  const { highlight } = highlightCreated;
+
+  beforeEach(() => {
+    omnivore.articles.get(ARTICLE_ID)!.highlights.push({
+      id: highlight.id,
+      type: "HIGHLIGHT",
+      quote: highlight.quote,
+      annotation: highlight.annotation,
+    });
+  });
+
+  it("answers the question in the highlight note", async () => {
+    const response = await handler(webhook(highlightCreated));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      `Reply added to highlight ${highlight.id}.`
+    );
+    expect(llm.requests[0].messages[0].content).toContain(
+      "asks: why would that be?"
+    );
+    expect(omnivore.mutations).toEqual([
+      {
+        operation: "UpdateHighlight",
+        variables: {
+          input: {
+            highlightId: highlight.id,
+            annotation: expect.stringMatching(
+              /^> why would that be\?\n\nFake completion for: /
+            ),
+          },
+        },
+      },
+    ]);
+  });
+
+  it("sends the part of a long article that holds the passage", async () => {
+    const article = omnivore.articles.get(ARTICLE_ID)!;
+    const filler = `${"Fast reading leaves little behind. ".repeat(30)}\n\n`;
+    article.content = `${filler.repeat(20)}${article.content}`;
+
+    await handler(webhook(highlightCreated));
+
+    const prompt = llm.requests[0].messages[0].content;
+    expect(prompt).toMatch(/Article content: [^]*Take notes/);
+    expect(prompt.length).toBeLessThan(article.content.length);
+  });
+
+  it("replies once to a retried delivery", async () => {
+    await handler(webhook(highlightCreated));
+    const response = await handler(webhook(highlightCreated));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      `Already replied to highlight ${highlight.id}.`
+    );
+    expect(llm.requests).toHaveLength(1);
+    expect(omnivore.mutations).toHaveLength(1);
+  });
+
+  it("ignores the update that writes the reply", async () => {
+    const payload = {
+      ...highlightCreated,
+      action: "updated",
+      highlight: { ...highlight, annotation: "> why?\n\nBecause." },
+    };
+
+    const response = await handler(webhook(payload));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      "No '@ai' trigger in the highlight note."
+    );
+    expect(llm.requests).toEqual([]);
+    expect(omnivore.mutations).toEqual([]);
+  });
+
+  it("ignores notes", async () => {
+    const payload = {
+      ...highlightCreated,
+      highlight: { ...highlight, type: "NOTE" },
+    };
+
+    const response = await handler(webhook(payload));
+
+    expect(await response.text()).toBe("Ignoring NOTE highlight.");
+    expect(omnivore.operations).toEqual([]);
+  });
+});
+
+describe("prompt templates", () => {
+  it("sends the rendered template as system and user message", async () => {
+    setLabelDescription(
+      "do:summary",
+      '{{#system}}You write for {{language}} readers.{{/system}}Three questions about "{{title}}" by {{author}}:\n{{content}}'
+    );
+
+    await handler(webhook(labelAdded));
+
+    expect(llm.requests[0].messages).toEqual([
+      { role: "system", content: "You write for English readers." },
+      {
+        role: "user",
+        content: expect.stringMatching(
+          /^Three questions about "The Case for Slow Reading" by Jane Doe:\n# The Case for Slow Reading/
+        ),
+      },
+    ]);
+  });
+
+  it("fails the action on unknown variables", async () => {
+    setLabelDescription("do:summary", "Summarize {{body}}");
+
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({
+      results: [
+        {
+          label: "do:summary",
+          status: "failed",
+          message: expect.stringContaining(
+            'Unknown prompt template variable "{{body}}"'
+          ),
+        },
+      ],
+    });
+    expect(llm.requests).toEqual([]);
+    expect(omnivore.mutations).toEqual([]);
+  });
+});
+
+describe("job queue", () => {
+  it("answers with 202 and works off the job after responding", async () => {
+    const queue = createMemoryQueue();
+    setQueue(queue);
+    const background: Promise<unknown>[] = [];
+
+    const response = await handler(webhook(labelAdded), {
+      waitUntil: (promise) => background.push(promise),
+    });
+
+    expect(response.status).toBe(202);
+    const { jobId, status } = (await response.json()) as {
+      jobId: string;
+      status: string;
+    };
+    expect(status).toBe("pending");
+
+    await Promise.all(background);
+    expect(await queue.get(jobId)).toMatchObject({
+      status: "done",
+      results: [{ label: "do:summary", status: "done" }],
+    });
+    expect(omnivore.mutations.map(({ operation }) => operation)).toEqual([
+      "CreateHighlight",
+      "CreateLabel",
+      "SetLabels",
+    ]);
+  });
+
+  it("leaves jobs of the shared queue to the worker", async () => {
+    const queue = createStoreQueue(createMemoryStore());
+    setQueue(queue);
+    const background: Promise<unknown>[] = [];
+
+    const response = await handler(webhook(labelAdded), {
+      waitUntil: (promise) => background.push(promise),
+    });
+
+    expect(response.status).toBe(202);
+    expect(background).toEqual([]);
+    expect(await queue.list()).toMatchObject([
+      { pageId: ARTICLE_ID, labels: ["do:summary"], status: "pending" },
+    ]);
+  });
+});
+
+describe("translate", () => {
+  it("skips articles that are already in the target language", async () => {
+    const response = await handler(webhook(labelPayload("do:translate:en")));
+
+    expect(await response.json()).toMatchObject({
+      results: [
+        {
+          label: "do:translate:en",
+          status: "done",
+          message: "The article is already in English, nothing to translate.",
+          labels: { added: ["did:translate:en"] },
+        },
+      ],
+    });
+    expect(llm.requests).toEqual([]);
+    expect(
+      omnivore.mutations.map(({ operation }) => operation)
+    ).not.toContain("CreateHighlight");
+  });
+
+  it("writes right-to-left translations with direction marks", async () => {
+    useProvider(createFakeProvider(() => "ملخص المقال\n\n- القراءة البطيئة"));
+
+    const response = await handler(webhook(labelPayload("do:translate:ar")));
+
+    expect(await response.json()).toMatchObject({
+      results: [{ label: "do:translate:ar", status: "done" }],
+    });
+    expect(llm.requests[0].messages[0].content).toContain(
+      "Write the whole response in Arabic, the article is written in English."
+    );
+    expect(omnivore.mutations[0]).toMatchObject({
+      operation: "CreateHighlight",
+      variables: {
+        input: {
+          annotation:
+            "<!-- section: Translation (Arabic) -->\n## Translation (Arabic)\n\n\u200Fملخص المقال\n\n- \u200Fالقراءة البطيئة\n<!-- /section: Translation (Arabic) -->",
+        },
+      },
+    });
+  });
+
+  it("follows the direction Omnivore reports over the language table", async () => {
+    // Yiddish isn't in the table, which would treat it as left to right
+    Object.assign(omnivore.articles.get(ARTICLE_ID)!, {
+      language: "Yiddish",
+      directionality: "RTL",
+    });
+    useProvider(createFakeProvider(() => "Summary\n\n- Slow reading"));
+
+    await handler(webhook(labelPayload("do:translate:en")));
+
+    expect(omnivore.mutations[0]).toMatchObject({
+      operation: "CreateHighlight",
+      variables: {
+        input: {
+          annotation:
+            "<!-- section: Translation (English) -->\n## Translation (English)\n\n\u200ESummary\n\n- \u200ESlow reading\n<!-- /section: Translation (English) -->",
+        },
+      },
+    });
+  });
+});
+
+describe("long articles", () => {
+  // About 3000 tokens, more than half of the fake model's default output
+  // limit but less than half of its context window
+  const paragraph = `${"Slow reading leaves more behind. ".repeat(30)}\n\n`;
+  beforeEach(() => {
+    omnivore.articles.get(ARTICLE_ID)!.content = paragraph.repeat(12);
+  });
+
+  it("sizes the chunks of a transcription by the output limit", async () => {
+    await handler(webhook(labelPayload("do:summary", "do:transcription")));
+
+    const transcriptions = llm.requests.filter(({ messages }) =>
+      messages[0].content.includes("transcription")
+    );
+    expect(llm.requests.length - transcriptions.length).toBe(1);
+    expect(transcriptions).toHaveLength(2);
+  });
+
+  it("sizes the chunks of a full translation by the output limit", async () => {
+    await handler(webhook(labelPayload("do:translate:de")));
+    expect(llm.requests).toHaveLength(1);
+
+    setConfig(
+      loadConfig(
+        { ...configFile, translation: { mode: "full" } },
+        { OMNIVORE_API_URL: omnivore.url }
+      )
+    );
+    llm.requests.length = 0;
+    await handler(webhook(labelPayload("do:translate:fr")));
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it("fails the action when the completion is cut off", async () => {
+    const provider = createFakeProvider();
+    useProvider({
+      ...provider,
+      complete: async (request) => ({
+        ...(await provider.complete(request)),
+        truncated: true,
+      }),
+    });
+
+    const response = await handler(webhook(labelPayload("do:transcription")));
+
+    expect(await response.json()).toMatchObject({
+      results: [
+        {
+          label: "do:transcription",
+          status: "failed",
+          message: expect.stringContaining("cut off"),
+        },
+      ],
+    });
+    expect(
+      omnivore.mutations.map(({ operation }) => operation)
+    ).not.toContain("CreateHighlight");
+  });
+});
+
+describe("dry run", () => {
+  it("returns the plan without writing to Omnivore", async () => {
+    const response = await handler(webhook(labelAdded, "?dryRun=1"));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      dryRun: true,
+      results: [{ label: "do:summary", status: "done" }],
+      plan: {
+        createdLabels: ["did:summary"],
+        labels: ["did:summary"],
+        note: expect.stringMatching(/^<!-- section: Summary -->\n## Summary\n\n/),
+      },
+    });
+    expect(omnivore.mutations).toEqual([]);
+  });
+});
+
+describe("preview labels", () => {
+  beforeEach(() => {
+    omnivore.labels.push({
+      id: "preview-label",
+      name: "do:summary:preview",
+      color: "#7CFF7B",
+      description: "",
+    });
+    omnivore.articles.get(ARTICLE_ID)!.labelIds = ["preview-label"];
+    setLabelDescription("do:summary", "List three takeaways.");
+  });
+
+  it("writes a draft with the action label's prompt and marks the preview as done", async () => {
+    const response = await handler(
+      webhook(labelPayload("do:summary:preview"))
+    );
+
+    expect(response.status).toBe(200);
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0].messages[0].content).toContain(
+      "List three takeaways."
+    );
+    expect(omnivore.mutations).toEqual([
+      {
+        operation: "CreateHighlight",
+        variables: {
+          input: expect.objectContaining({
+            annotation: expect.stringMatching(
+              /^<!-- section: Preview \(draft\) -->\n## Preview \(draft\)\n\n/
+            ),
+          }),
+        },
+      },
+      {
+        operation: "CreateLabel",
+        variables: { input: { name: "did:summary:preview", description: "" } },
+      },
+      {
+        operation: "SetLabels",
+        variables: {
+          input: {
+            pageId: ARTICLE_ID,
+            labelIds: [labelId("did:summary:preview")],
+          },
+        },
+      },
+    ]);
+  });
+
+  it("enqueues the preview instead of running it inline", async () => {
+    setQueue(createMemoryQueue());
+    const background: Promise<unknown>[] = [];
+
+    const response = await handler(
+      webhook(labelPayload("do:summary:preview")),
+      { waitUntil: (promise) => background.push(promise) }
+    );
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({
+      previewJobId: expect.any(String),
+    });
+    expect(llm.requests).toEqual([]);
+
+    await Promise.all(background);
+    expect(omnivore.mutations.map(({ operation }) => operation)).toEqual([
+      "CreateHighlight",
+      "CreateLabel",
+      "SetLabels",
+    ]);
+  });
+});
+
+describe("usage", () => {
+  // USD per million tokens, high enough to show in the footer
+  const PRICE = { prompt: 100, completion: 200 };
+
+  function useUsageConfig(usage: Record<string, unknown>) {
+    setConfig(
+      loadConfig(
+        { ...configFile, usage: { prices: { fake: PRICE }, ...usage } },
+        { OMNIVORE_API_URL: omnivore.url }
+      )
+    );
+  }
+
+  it("reports the tokens and cost and appends them to the note", async () => {
+    useUsageConfig({ noteFooter: true });
+
+    const response = await handler(webhook(labelAdded));
+
+    const { results } = (await response.json()) as {
+      results: Array<{ usage: ModelUsage[] }>;
+    };
+    const [{ promptTokens, completionTokens, cost }] = results[0].usage;
+    expect(results[0].usage).toEqual([
+      { model: "fake", promptTokens, completionTokens, cost },
+    ]);
+    expect(cost).toBeCloseTo(
+      (promptTokens * PRICE.prompt + completionTokens * PRICE.completion) /
+        1_000_000
+    );
+    expect(omnivore.mutations[0].variables).toMatchObject({
+      input: {
+        annotation: expect.stringMatching(
+          /\n\n\*Usage: \d+ prompt and \d+ completion tokens of fake, about \$0\.\d{4}\*\n<!-- \/section: Summary -->$/
+        ),
+      },
+    });
+  });
+
+  it("refuses work once the daily budget is used up", async () => {
+    useUsageConfig({ dailyBudget: 0.0001 });
+    await handler(webhook(labelAdded));
+    omnivore.operations.length = 0;
+
+    const response = await handler(webhook(labelPayload("do:tags")));
+
+    expect(response.status).toBe(429);
+    expect(await response.text()).toMatch(/^The daily budget of \$0.0001/);
+    expect(omnivore.operations).toEqual([]);
+    expect(llm.requests).toHaveLength(1);
+  });
+});
+
+describe("logging", () => {
+  it("writes JSON entries with the request ID, redacted and with timings", async () => {
+    vi.stubEnv("OMNIVORE_API_KEY", "omnivore-secret-key");
+    setConfig(
+      loadConfig(
+        {
+          ...configFile,
+          logging: { level: "debug", maxLength: 200, redactNotes: true },
+        },
+        { OMNIVORE_API_URL: omnivore.url }
+      )
+    );
+    const article = omnivore.articles.get(ARTICLE_ID)!;
+    article.content = `Key: omnivore-secret-key\n\n${article.content}`;
+    article.highlights.push({
+      id: "note-1",
+      type: "NOTE",
+      quote: null,
+      annotation: "My own thoughts.",
+    });
+
+    const response = await handler(webhook(labelAdded));
+    const { requestId } = (await response.json()) as { requestId: string };
+
+    const lines = vi
+      .mocked(console.log)
+      .mock.calls.map(([line]) => String(line));
+    const entries = lines.map((line) => JSON.parse(line));
+    expect(entries.every((entry) => entry.requestId === requestId)).toBe(true);
+    expect(lines.join("\n")).not.toContain("omnivore-secret-key");
+    expect(lines.join("\n")).not.toContain("My own thoughts");
+    expect(
+      entries.every(({ article }) => !article || article.content.length < 250)
+    ).toBe(true);
+
+    const finished = entries.find(
+      ({ message }) => message === "Request finished"
+    );
+    expect(finished).toMatchObject({ level: "info", status: 200 });
+    expect(Object.keys(finished.timings).sort()).toEqual([
+      "fetch article",
+      "fetch labels",
+      "model",
+      "write-back",
+    ]);
+  });
+});
+
+describe("malformed requests", () => {
+  it("rejects a body that isn't JSON", async () => {
+    const response = await handler(webhook("{ not json"));
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("Webhook payload is not valid JSON.");
+    expect(omnivore.operations).toEqual([]);
+  });
+
+  it("rejects unknown actions", async () => {
+    const response = await handler(
+      webhook({ action: "deleted", userId: labelAdded.userId })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("Unhandled action: deleted");
+  });
+
+  it("rejects LABEL_ADDED without labels", async () => {
+    const response = await handler(webhook(labelPayload()));
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe(
+      "No labels found in the webhook payload."
+    );
+  });
+
+  it("rejects labels without a trigger", async () => {
+    const response = await handler(webhook(labelPayload("Reading")));
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain("No 'do' labels found.");
+    expect(omnivore.operations).toEqual([]);
+  });
+
+  it("rejects PAGE_CREATED without page", async () => {
+    const response = await handler(
+      webhook({ action: "PAGE_CREATED", userId: labelAdded.userId })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe(
+      "No page found in the webhook payload."
+    );
+  });
+});
+
+describe("authentication", () => {
+  it("rejects requests without the webhook secret", async () => {
+    vi.stubEnv("WEBHOOK_SECRET", "secret");
+
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(401);
+    expect(omnivore.operations).toEqual([]);
+  });
+
+  it("rejects unauthenticated requests before loading the configuration", async () => {
+    vi.stubEnv("WEBHOOK_SECRET", "secret");
+    vi.stubEnv("OMNIVORE_LABEL_MODE", "invalid");
+    setConfig(undefined);
+
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(401);
+    expect(await response.text()).not.toMatch(/configuration/);
+  });
+
+  it("accepts the webhook secret as token", async () => {
+    vi.stubEnv("WEBHOOK_SECRET", "secret");
+
+    const response = await handler(webhook(labelAdded, "?token=secret"));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects payloads of other Omnivore users", async () => {
+    vi.stubEnv("OMNIVORE_USER_ID", "someone-else");
+
+    const response = await handler(webhook(labelAdded));
+
+    expect(response.status).toBe(403);
+    expect(omnivore.operations).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import type OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import configFile from "../config.json";
+import { loadConfig, setConfig } from "../lib/config";
+import { getProvider, setProvider } from "../lib/llm";
+import { createAnthropicProvider } from "../lib/llm/anthropic";
+import { createOpenAIProvider } from "../lib/llm/openai";
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setProvider(undefined);
+  setConfig(undefined);
+});
+
+describe("configured provider", () => {
+  it("creates the provider and its client once", () => {
+    setConfig(loadConfig(configFile, { LLM_PROVIDER: "fake" }));
+
+    expect(getProvider()).toBe(getProvider());
+  });
+});
+
+describe("provider settings", () => {
+  it("lets the label's model and temperature override OpenAI settings", async () => {
+    const create = vi.fn(async () => ({
+      model: "gpt-4o",
+      choices: [{ message: { content: "Hi" } }],
+    }));
+    const client = { chat: { completions: { create } } } as unknown as OpenAI;
+    const provider = createOpenAIProvider({
+      model: "gpt-4o-mini",
+      settings: { model: "gpt-3.5-turbo", temperature: 1, seed: 1 },
+      client,
+    });
+
+    await provider.complete({
+      messages,
+      options: { model: "gpt-4o", temperature: 0 },
+    });
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "gpt-4o", temperature: 0, seed: 1 })
+    );
+  });
+
+  it("lets the label's model override Anthropic settings", async () => {
+    const fetch = vi.fn(
+      async (_url: string, _init: RequestInit) =>
+        new Response(
+          JSON.stringify({
+            model: "claude-3-5-haiku",
+            content: [{ type: "text", text: "Hi" }],
+          })
+        )
+    );
+    vi.stubGlobal("fetch", fetch);
+    const provider = createAnthropicProvider({
+      apiKey: "key",
+      model: "claude-3-5-sonnet-latest",
+      settings: { model: "claude-3-opus-latest", temperature: 1 },
+    });
+
+    await provider.complete({
+      messages,
+      options: { model: "claude-3-5-haiku-latest" },
+    });
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body as string)).toMatchObject({
+      model: "claude-3-5-haiku-latest",
+      temperature: 1,
+    });
+  });
+});
+
+describe("truncated completions", () => {
+  it("flags OpenAI completions that stopped at the length limit", async () => {
+    const create = vi.fn(async () => ({
+      model: "gpt-4o",
+      choices: [{ message: { content: "Hi" }, finish_reason: "length" }],
+    }));
+    const client = { chat: { completions: { create } } } as unknown as OpenAI;
+    const provider = createOpenAIProvider({ model: "gpt-4o", client });
+
+    expect(await provider.complete({ messages })).toMatchObject({
+      truncated: true,
+    });
+  });
+
+  it("flags Anthropic completions that stopped at max_tokens", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              model: "claude-3-5-haiku",
+              content: [{ type: "text", text: "Hi" }],
+              stop_reason: "max_tokens",
+            })
+          )
+      )
+    );
+    const provider = createAnthropicProvider({
+      apiKey: "key",
+      model: "claude-3-5-haiku-latest",
+    });
+
+    expect(await provider.complete({ messages })).toMatchObject({
+      truncated: true,
+    });
+  });
+});
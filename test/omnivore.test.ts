@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createOmnivoreClient } from "../lib/omnivore";
+import type { OmnivoreClient } from "../lib/omnivore";
+import { startFakeOmnivore } from "./omnivore";
+import type { FakeOmnivore } from "./omnivore";
+
+let omnivore: FakeOmnivore;
+let client: OmnivoreClient;
+
+beforeEach(async () => {
+  omnivore = await startFakeOmnivore({
+    articles: [
+      {
+        id: "page-1",
+        title: "Article",
+        author: null,
+        url: "https://example.com",
+        language: null,
+        directionality: null,
+        content: "Content",
+        labelIds: [],
+        highlights: [],
+      },
+    ],
+  });
+  client = createOmnivoreClient({
+    apiKey: "key",
+    endpoint: omnivore.url,
+    retryDelay: 1,
+  });
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await omnivore.close();
+});
+
+// The first request of the operation reaches Omnivore, but its response is
+// lost to a gateway error
+function loseFirstResponse(operation: string) {
+  const realFetch = globalThis.fetch;
+  let lost = false;
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const response = await realFetch(url, init);
+    if (!lost && String(init.body).includes(`mutation ${operation}`)) {
+      lost = true;
+      return new Response("Bad gateway", { status: 502 });
+    }
+    return response;
+  });
+}
+
+describe("retried mutations", () => {
+  it("returns the label an attempt with a lost response created", async () => {
+    loseFirstResponse("CreateLabel");
+
+    const label = await client.createLabel({
+      name: "Reading",
+      color: "#000000",
+      description: "",
+    });
+
+    expect(label).toMatchObject({ id: "label-1", name: "Reading" });
+    expect(omnivore.labels).toHaveLength(1);
+  });
+
+  it("returns the highlight an attempt with a lost response created", async () => {
+    loseFirstResponse("CreateHighlight");
+
+    const highlight = await client.createHighlight({
+      type: "NOTE",
+      articleId: "page-1",
+      annotation: "Note",
+    });
+
+    expect(highlight).toMatchObject({ type: "NOTE", annotation: "Note" });
+    expect(omnivore.articles.get("page-1")!.highlights).toEqual([
+      expect.objectContaining({ id: highlight.id, annotation: "Note" }),
+    ]);
+  });
+});
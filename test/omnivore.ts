@@ -0,0 +1,244 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import type { ArticleHighlight, Label } from "../lib/types";
+
+// Stand-in for the Omnivore GraphQL API. It answers the operations the
+// client sends, keeps the account's labels and the articles in memory and
+// records every mutation, so tests can assert exactly what was written.
+
+export interface FakeArticle {
+  id: string;
+  title: string;
+  author: string | null;
+  url: string;
+  language: string | null;
+  directionality: string | null;
+  content: string;
+  // Ids of account labels
+  labelIds: string[];
+  highlights: ArticleHighlight[];
+}
+
+export interface RecordedOperation {
+  operation: string;
+  variables: Record<string, unknown>;
+}
+
+export interface FakeOmnivore {
+  // GraphQL endpoint to configure as omnivore.endpoint
+  url: string;
+  labels: Label[];
+  articles: Map<string, FakeArticle>;
+  // Mutations in the order they were received
+  mutations: RecordedOperation[];
+  // Every operation, queries included
+  operations: RecordedOperation[];
+  close(): Promise<void>;
+}
+
+export interface FakeOmnivoreOptions {
+  labels?: Label[];
+  articles?: FakeArticle[];
+}
+
+const MUTATIONS = [
+  "CreateLabel",
+  "DeleteLabel",
+  "SetLabels",
+  "CreateHighlight",
+  "UpdateHighlight",
+];
+
+export async function startFakeOmnivore({
+  labels = [],
+  articles = [],
+}: FakeOmnivoreOptions = {}): Promise<FakeOmnivore> {
+  const state = {
+    labels: labels.map((label) => ({ ...label })),
+    articles: new Map(
+      articles.map((article) => [
+        article.id,
+        {
+          ...article,
+          labelIds: [...article.labelIds],
+          highlights: article.highlights.map((highlight) => ({
+            ...highlight,
+          })),
+        },
+      ])
+    ),
+    mutations: [] as RecordedOperation[],
+    operations: [] as RecordedOperation[],
+  };
+  let nextId = 1;
+
+  const findLabel = (id: string) =>
+    state.labels.find((label) => label.id === id);
+
+  function resolve(
+    operation: string,
+    variables: Record<string, unknown>
+  ): Record<string, unknown> {
+    const input = (variables["input"] ?? {}) as Record<string, unknown>;
+
+    switch (operation) {
+      case "Article": {
+        const article = state.articles.get(variables["slug"] as string);
+        if (!article) {
+          return { article: { errorCodes: ["NOT_FOUND"] } };
+        }
+        const { labelIds, ...fields } = article;
+        return {
+          article: {
+            article: {
+              ...fields,
+              labels: labelIds.map(findLabel).filter(Boolean),
+            },
+          },
+        };
+      }
+      case "Search":
+        return {
+          search: {
+            edges: [...state.articles.values()].map((article) => ({
+              node: {
+                id: article.id,
+                title: article.title,
+                labels: article.labelIds.map(findLabel).filter(Boolean),
+              },
+            })),
+            pageInfo: {
+              hasNextPage: false,
+              endCursor: null,
+              totalCount: state.articles.size,
+            },
+          },
+        };
+      case "GetLabels":
+        return { labels: { labels: state.labels } };
+      case "CreateLabel": {
+        const name = input["name"] as string;
+        if (state.labels.some((label) => label.name === name)) {
+          return { createLabel: { errorCodes: ["LABEL_ALREADY_EXISTS"] } };
+        }
+        const label: Label = {
+          id: `label-${nextId++}`,
+          name,
+          color: (input["color"] as string | undefined) ?? "#000000",
+          description: (input["description"] as string | undefined) ?? "",
+        };
+        state.labels.push(label);
+        return { createLabel: { label } };
+      }
+      case "DeleteLabel": {
+        const label = findLabel(variables["id"] as string);
+        if (!label) {
+          return { deleteLabel: { errorCodes: ["NOT_FOUND"] } };
+        }
+        state.labels = state.labels.filter((other) => other !== label);
+        return { deleteLabel: { label } };
+      }
+      case "SetLabels": {
+        const article = state.articles.get(input["pageId"] as string);
+        const labelIds = input["labelIds"] as string[];
+        if (!article || !labelIds.every(findLabel)) {
+          return { setLabels: { errorCodes: ["NOT_FOUND"] } };
+        }
+        article.labelIds = [...labelIds];
+        return { setLabels: { labels: labelIds.map(findLabel) } };
+      }
+      case "CreateHighlight": {
+        const article = state.articles.get(input["articleId"] as string);
+        if (!article) {
+          return { createHighlight: { errorCodes: ["NOT_FOUND"] } };
+        }
+        if (article.highlights.some(({ id }) => id === input["id"])) {
+          return { createHighlight: { errorCodes: ["ALREADY_EXISTS"] } };
+        }
+        const highlight = {
+          id: input["id"] as string,
+          type: input["type"] as string,
+          quote: (input["quote"] as string | undefined) ?? null,
+          annotation: (input["annotation"] as string | undefined) ?? null,
+        };
+        article.highlights.push(highlight);
+        return { createHighlight: { highlight: toHighlight(highlight) } };
+      }
+      case "UpdateHighlight": {
+        const highlight = [...state.articles.values()]
+          .flatMap(({ highlights }) => highlights)
+          .find(({ id }) => id === input["highlightId"]);
+        if (!highlight) {
+          return { updateHighlight: { errorCodes: ["NOT_FOUND"] } };
+        }
+        highlight.annotation = input["annotation"] as string;
+        return { updateHighlight: { highlight: toHighlight(highlight) } };
+      }
+      default:
+        throw new Error(`Unknown operation ${operation}`);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { query, variables = {} } = JSON.parse(body) as {
+        query: string;
+        variables?: Record<string, unknown>;
+      };
+      const operation = query.match(/(?:query|mutation)\s+(\w+)/)?.[1] ?? "";
+      const recorded = { operation, variables };
+      state.operations.push(recorded);
+      if (MUTATIONS.includes(operation)) {
+        state.mutations.push(recorded);
+      }
+
+      let response: unknown;
+      try {
+        response = { data: resolve(operation, variables) };
+      } catch (error) {
+        response = { errors: [{ message: (error as Error).message }] };
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/graphql`,
+    get labels() {
+      return state.labels;
+    },
+    articles: state.articles,
+    mutations: state.mutations,
+    operations: state.operations,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+function toHighlight(highlight: ArticleHighlight) {
+  return {
+    ...highlight,
+    shortId: highlight.id.substring(0, 8),
+    prefix: null,
+    suffix: null,
+    patch: null,
+    color: null,
+    createdByMe: true,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: null,
+    sharedAt: null,
+    highlightPositionPercent: null,
+    highlightPositionAnchorIndex: null,
+    labels: [],
+  };
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createJobQueue, createStoreQueue, drainQueue } from "../lib/queue";
+import type { Job, JobQueue } from "../lib/queue";
+import { createMemoryStore } from "../lib/store";
+
+const MINUTE = 60 * 1000;
+
+const input = {
+  requestId: "request-1",
+  pageId: "page-1",
+  labels: ["do:summary"],
+  annotateLabel: "do",
+};
+
+let jobs: Job[];
+let queue: JobQueue;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date("2024-03-02T09:00:00Z") });
+  jobs = [];
+  queue = createJobQueue(
+    {
+      load: async () => jobs.map((job) => ({ ...job })),
+      save: async (changed) => {
+        jobs = changed;
+      },
+    },
+    { leaseTime: 10 * MINUTE, retention: 60 * MINUTE }
+  );
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("job queue", () => {
+  it("claims a running job again once its lease expired", async () => {
+    const { id } = await queue.enqueue(input);
+    await queue.claim();
+
+    expect(await queue.claim()).toBeUndefined();
+
+    vi.advanceTimersByTime(11 * MINUTE);
+    expect(await queue.claim()).toMatchObject({
+      id,
+      status: "running",
+      attempts: 2,
+      lastError: "Abandoned by the worker that claimed it.",
+    });
+  });
+
+  it("gives up on jobs abandoned more often than the attempts allow", async () => {
+    const { id } = await queue.enqueue(input);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await queue.claim();
+      vi.advanceTimersByTime(11 * MINUTE);
+    }
+    const run = vi.fn(async () => []);
+
+    expect(await drainQueue(queue, { maxAttempts: 3, run })).toEqual({
+      done: 0,
+      retried: 0,
+      failed: 1,
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(await queue.get(id)).toMatchObject({ status: "failed" });
+  });
+
+  it("prunes finished jobs after the retention", async () => {
+    const { id } = await queue.enqueue(input);
+    await drainQueue(queue, { run: async () => [] });
+    const pending = await queue.enqueue(input);
+
+    vi.advanceTimersByTime(61 * MINUTE);
+    await queue.claim();
+
+    expect(jobs.map((job) => job.id)).toEqual([pending.id]);
+    expect(await queue.get(id)).toBeUndefined();
+  });
+});
+
+describe("store queue", () => {
+  // Two instances, like the webhook and a worker, sharing the state store
+  function createQueues() {
+    const store = createMemoryStore();
+    const options = { leaseTime: 10 * MINUTE, retention: 60 * MINUTE };
+    return [
+      createStoreQueue(store, options),
+      createStoreQueue(store, options),
+    ];
+  }
+
+  it("keeps the jobs that instances enqueue at the same time", async () => {
+    const [webhook, worker] = createQueues();
+    const { id } = await webhook.enqueue(input);
+    await worker.claim();
+
+    const enqueued = await Promise.all([
+      webhook.enqueue(input),
+      worker.enqueue(input),
+      worker.complete(id, []),
+    ]);
+
+    expect((await worker.list()).map((job) => job.status)).toEqual([
+      "done",
+      "pending",
+      "pending",
+    ]);
+    expect(await webhook.get(enqueued[1].id)).toMatchObject({
+      status: "pending",
+    });
+  });
+
+  it("gives a job to one of the instances claiming it", async () => {
+    const [first, second] = createQueues();
+    const { id } = await first.enqueue(input);
+
+    const claimed = await Promise.all([first.claim(), second.claim()]);
+
+    expect(claimed.filter(Boolean)).toMatchObject([{ id, attempts: 1 }]);
+  });
+
+  it("drops finished jobs after the retention", async () => {
+    const [queue] = createQueues();
+    const { id } = await queue.enqueue(input);
+    await drainQueue(queue, { run: async () => [] });
+
+    vi.advanceTimersByTime(61 * MINUTE);
+
+    expect(await queue.get(id)).toBeUndefined();
+    expect(await queue.list()).toEqual([]);
+  });
+});
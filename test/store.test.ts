@@ -0,0 +1,49 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { KeyValueStore } from "../lib/store";
+import { createFileStore } from "../lib/store/file";
+
+// Writes take a while, so a reader can catch a file half written
+vi.mock("fs/promises", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("fs/promises")>();
+  return {
+    ...fs,
+    async writeFile(path: string, data: string) {
+      await fs.writeFile(path, data.slice(0, data.length / 2));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await fs.appendFile(path, data.slice(data.length / 2));
+    },
+  };
+});
+
+let directory: string;
+let path: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "store-"));
+  path = join(directory, "state.json");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("file store", () => {
+  // Like the backfill running two articles at once, one budget check
+  // reading while the other article's usage is written
+  it("reads while the file is written", async () => {
+    const store = createFileStore(path);
+    // Another process on the same file, it doesn't share the store's queue
+    const other: KeyValueStore = createFileStore(path);
+
+    for (let index = 0; index < 3; index++) {
+      const writing = store.append("log", [`entry-${index}`], 60);
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      await Promise.all([store.get("log"), other.list("log"), writing]);
+    }
+
+    expect(await other.list("log")).toHaveLength(3);
+  });
+});
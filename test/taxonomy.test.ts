@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { labelSimilarity, labelTokens } from "../lib/taxonomy";
+
+// The default taxonomy.similarity
+const THRESHOLD = 0.8;
+
+describe("labelTokens", () => {
+  it("strips plurals but keeps words that only end in s", () => {
+    expect(labelTokens("Stories of Boxes")).toEqual(["box", "story"]);
+    expect(labelTokens("News")).toEqual(["news"]);
+    expect(labelTokens("Arts")).toEqual(["arts"]);
+    expect(labelTokens("Physics")).toEqual(["physics"]);
+    expect(labelTokens("Analysis")).toEqual(["analysis"]);
+  });
+});
+
+describe("labelSimilarity", () => {
+  it.each([
+    ["AI Ethics", "Ethics of AI"],
+    ["Book", "Books"],
+    ["reading", "Reading"],
+    ["Java Script", "JavaScript"],
+  ])("treats %s and %s as the same label", (a, b) => {
+    expect(labelSimilarity(a, b)).toBe(1);
+  });
+
+  it.each([
+    ["Machine Learning", "Machine Lerning"],
+    ["Productivity", "Productivty"],
+    ["Psychology", "Pyschology"],
+  ])("matches the typo %s and %s", (a, b) => {
+    expect(labelSimilarity(a, b)).toBeGreaterThanOrEqual(THRESHOLD);
+  });
+
+  it.each([
+    ["News", "New"],
+    ["Art", "Arts"],
+    ["Machine Learning", "Deep Learning"],
+    ["Machine Learning", "Machine Reading"],
+    ["Climate Change", "Climate Policy"],
+    ["Painting", "Printing"],
+    ["Marketing", "Marking"],
+    ["Social Media", "Social Medicine"],
+    ["Politics", "Poetics"],
+    ["Politics", "Policy"],
+    ["Economy", "Ecology"],
+  ])("keeps %s and %s apart", (a, b) => {
+    expect(labelSimilarity(a, b)).toBeLessThan(THRESHOLD);
+  });
+});
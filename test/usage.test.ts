@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStore } from "../lib/store";
+import { getBudgetError, readUsageLog, recordUsage } from "../lib/usage";
+import type { UsageEntry } from "../lib/usage";
+
+function entry(requestId: string): UsageEntry {
+  return {
+    requestId,
+    articleId: "page-1",
+    label: "do:summary",
+    action: "summary",
+    model: "gpt-4o-mini",
+    promptTokens: 1000,
+    completionTokens: 100,
+    cost: 0.25,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+describe("usage log", () => {
+  it("keeps the entries and cost of concurrent deliveries", async () => {
+    const store = createMemoryStore();
+    const requestIds = Array.from({ length: 8 }, (_, index) => `r${index}`);
+
+    await Promise.all(
+      requestIds.map((requestId) => recordUsage(store, [entry(requestId)]))
+    );
+
+    const today = new Date().toISOString().slice(0, 10);
+    const log = await readUsageLog(store, today);
+    expect(log.map(({ requestId }) => requestId).sort()).toEqual(requestIds);
+    expect(
+      await getBudgetError(store, {
+        noteFooter: false,
+        dailyBudget: 2,
+        monthlyBudget: 0,
+        prices: {},
+      })
+    ).toBe("The daily budget of $2 is used up ($2.00 spent), try again later.");
+  });
+});